@@ -1,119 +1,773 @@
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import { Loader } from '@react-three/drei';
-import { AppState, GestureType, PhotoData } from './types';
+import { AppState, GestureEvent, GestureType, HandCursor, HandStatus, HandTrackingResult, InputMode, Photo, SceneSettings, TwoHandState, UploadItem } from './types';
 import { Experience } from './components/Experience';
 import { HandManager } from './components/HandManager';
+import { InputManager } from './components/InputManager';
 import { InterfaceOverlay } from './components/InterfaceOverlay';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { PerformanceStats } from './components/PerformanceStats';
+import { createAppStateMachine } from './utils/appStateMachine';
+import { isSelectingEvent } from './utils/handsPipeline';
+import { InputIntent, resolveIntent } from './utils/pointerInput';
+import { parseSeed, randomSeed } from './utils/random';
+import { createStoredPhoto, deleteStoredPhoto, loadStoredPhotos, saveStoredPhoto, StoredPhoto, updateStoredPhoto } from './services/photoStore';
+import { downloadTheme, loadThemePreferences, saveThemePreferences } from './services/themeStore';
+import { importTheme } from './utils/theme';
+import { applySceneSettings, resolveSceneSettings, SceneSettingsOverrides } from './utils/sceneSettings';
+import { loadSceneOverrides, saveSceneOverrides } from './services/sceneSettingsStore';
+import { loadCalibration, saveCalibration } from './services/calibrationStore';
+import { CalibrationProfile } from './utils/calibration';
+import { loadInputMode, saveInputMode } from './services/inputModeStore';
+import { loadTourSettings, saveTourSettings } from './services/tourSettingsStore';
+import { advanceTour, createPhotoTour, pauseTour, PhotoTour, resumeTour, TourCamera, TourSettings, tourDelay } from './utils/photoTour';
+import { PhotoDetails, sanitizePhotoDetails } from './utils/photoDetails';
+import { createTreeBundle, downloadTreeBundle, readTreeBundle } from './services/treeBundle';
+import { loadMorphSettings, saveMorphSettings } from './services/morphSettingsStore';
+import { loadLightSettings, saveLightSettings } from './services/lightSettingsStore';
+import { loadSnowEnabled, saveSnowEnabled } from './services/snowStore';
+import { initialQualityTier, loadQualityPreferences, saveQualityPreferences } from './services/qualityStore';
+import { createQualityController, QUALITY_TIERS, QualityPreferences, qualityTierIndex } from './utils/quality';
+import { createPerformanceMonitor } from './utils/performanceMonitor';
+import { recordingSequence, SceneCapturer, SNAPSHOT_HOLD_MS } from './utils/capture';
+import { CanvasRecording, downloadCapture, startCanvasRecording } from './services/sceneRecorder';
+import { MorphSettings, nextFormation } from './utils/morphTargets';
+import { LightSettings, nextLightPattern, withTempo } from './utils/lightPatterns';
+import { createBeatClock, createTapTempo } from './utils/beatSync';
+import { BeatListener, startBeatListener } from './services/beatListener';
+import { BUILT_IN_THEMES } from './themes';
 
-// Placeholder images
-const DEFAULT_PHOTOS = [
-  'https://picsum.photos/400/600',
-  'https://picsum.photos/400/400',
-  'https://picsum.photos/500/400',
-  'https://picsum.photos/400/500',
-];
+// Placeholder images (not persisted; uploads from the library are appended after them)
+const DEFAULT_PHOTOS: Photo[] = [
+  [400, 600],
+  [400, 400],
+  [500, 400],
+  [400, 500],
+].map(([width, height], i) => ({
+  id: `default-${i}`,
+  url: `https://picsum.photos/${width}/${height}`,
+  filename: `placeholder-${width}x${height}.jpg`,
+  width,
+  height,
+  uploadedAt: 0,
+  caption: '',
+  date: '',
+  author: '',
+})).map((photo) => ({ ...photo, thumbnailUrl: photo.url }));
+
+const toPhoto = ({ blob, thumbnail, ...meta }: StoredPhoto): Photo => ({
+  ...meta,
+  url: URL.createObjectURL(blob),
+  thumbnailUrl: URL.createObjectURL(thumbnail),
+});
+
+const releasePhotoUrls = (photo: Photo) => {
+  if (photo.url.startsWith('blob:')) URL.revokeObjectURL(photo.url);
+  if (photo.thumbnailUrl.startsWith('blob:')) URL.revokeObjectURL(photo.thumbnailUrl);
+};
+
+// THUMBS_UP may confirm a photo the cursor left this recently (the hand shifts while changing pose)
+const AIM_MEMORY_MS = 1000;
+
+// Layout seed from ?seed=..., so a tree can be reproduced from its URL
+const initialSeed = () => parseSeed(new URLSearchParams(window.location.search).get('seed')) ?? randomSeed();
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.TREE);
+  // TREE / SCATTER / FOCUS transitions live in the state machine; React just mirrors its state
+  const [stateMachine] = useState(() => createAppStateMachine());
+  const { appState, focusedPhotoIndex } = useSyncExternalStore(stateMachine.subscribe, stateMachine.getState);
   const [currentGesture, setCurrentGesture] = useState<GestureType>(GestureType.NONE);
-  const [photos, setPhotos] = useState<string[]>(DEFAULT_PHOTOS);
-  const [focusedPhotoIndex, setFocusedPhotoIndex] = useState<number | null>(null);
+  const [photos, setPhotos] = useState<Photo[]>(DEFAULT_PHOTOS);
+  const [seed, setSeed] = useState<number>(initialSeed);
+  const [hoveredPhotoIndex, setHoveredPhotoIndex] = useState<number | null>(null);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [themePreferences, setThemePreferences] = useState(loadThemePreferences);
+  const [themeError, setThemeError] = useState<string | null>(null);
+  const [bundleTask, setBundleTask] = useState<'exporting' | 'importing' | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+
+  // Imported themes are listed after the built-ins, replacing any built-in with the same id
+  const themes = useMemo(() => [
+    ...BUILT_IN_THEMES.filter((t) => !themePreferences.custom.some((c) => c.id === t.id)),
+    ...themePreferences.custom,
+  ], [themePreferences.custom]);
+  const selectedTheme = themes.find((t) => t.id === themePreferences.selectedId) ?? BUILT_IN_THEMES[0];
+
+  // Settings panel overrides, layered on top of the selected theme
+  const [sceneOverrides, setSceneOverrides] = useState<SceneSettingsOverrides>(loadSceneOverrides);
+  const [isSnowing, setIsSnowing] = useState(loadSnowEnabled);
+  const sceneSettings = useMemo(() => resolveSceneSettings(selectedTheme, sceneOverrides), [selectedTheme, sceneOverrides]);
+  const theme = useMemo(() => applySceneSettings(selectedTheme, sceneSettings), [selectedTheme, sceneSettings]);
+
+  // Frame and hand tracking timings; in 'auto' quality the controller steps tiers to hold the frame rate
+  const [performanceMonitor] = useState(() => createPerformanceMonitor());
+  const [qualityPreferences, setQualityPreferences] = useState<QualityPreferences>(loadQualityPreferences);
+  const [autoTier, setAutoTier] = useState(initialQualityTier);
+  const [qualityController] = useState(() => createQualityController(autoTier));
+  const isAutoQuality = qualityPreferences.mode === 'auto';
+  const isAutoQualityRef = useRef(isAutoQuality);
+  isAutoQualityRef.current = isAutoQuality;
+  const qualityTier = QUALITY_TIERS[isAutoQuality ? autoTier : qualityTierIndex(qualityPreferences.mode)];
+
+  const handleFrame = useCallback((frameMs: number) => {
+    performanceMonitor.recordFrame(frameMs);
+    if (!isAutoQualityRef.current) return;
+    const next = qualityController.update(frameMs, performance.now());
+    if (next !== null) setAutoTier(next);
+  }, [performanceMonitor, qualityController]);
+
+  const handleQualityPreferencesChange = (change: Partial<QualityPreferences>) => {
+    setQualityPreferences((prev) => ({ ...prev, ...change }));
+    // Back to automatic: judge the frame rate afresh rather than on figures from the pinned tier
+    if (change.mode === 'auto' && !isAutoQuality) qualityController.reset(autoTier, performance.now());
+  };
+
+  // The tier scales what the scene draws, not the settings the user chose
+  const renderSettings = useMemo(() => ({
+    ...sceneSettings,
+    particleCount: Math.round(sceneSettings.particleCount * qualityTier.particleScale),
+    snowDensity: Math.round(sceneSettings.snowDensity * qualityTier.particleScale),
+  }), [sceneSettings, qualityTier]);
   
   // Hand tracking data for camera movement
   const handPositionRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
 
-  const handleGestureDetected = useCallback((gesture: GestureType, handX: number, handY: number) => {
-    setCurrentGesture(gesture);
+  // Hand cursor (NDC) and the photo currently under it, shared with the scene's hit-testing
+  const handCursorRef = useRef<HandCursor>({ x: 0, y: 0, visible: false });
+  const hoveredPhotoRef = useRef<number | null>(null);
+  const aimedPhotoRef = useRef<{ index: number; time: number } | null>(null);
+  const photoCountRef = useRef(photos.length);
+  photoCountRef.current = photos.length;
+
+  const handlePhotoHover = useCallback((index: number | null) => {
+    setHoveredPhotoIndex(index);
+    // Remember the last photo aimed at, and when the cursor left it
+    if (index !== null) aimedPhotoRef.current = { index, time: performance.now() };
+    else if (aimedPhotoRef.current) aimedPhotoRef.current.time = performance.now();
+  }, []);
+
+  // Engaged two-hand ZOOM / ROTATE, read by the scene every frame; hand roles for the overlay
+  const twoHandRef = useRef<TwoHandState | null>(null);
+  const [hands, setHands] = useState<HandStatus[]>([]);
+
+  const handleTwoHandMove = useCallback((state: TwoHandState | null) => {
+    twoHandRef.current = state;
+  }, []);
+
+  const handleHandMove = useCallback((handX: number, handY: number, cursor: HandCursor) => {
     handPositionRef.current = { x: handX, y: handY };
+    handCursorRef.current = cursor;
+  }, []);
 
-    // State machine logic based on gesture
-    setAppState((prev) => {
-      // Priority: FIST forces TREE
-      if (gesture === GestureType.FIST && prev !== AppState.TREE) {
-        return AppState.TREE;
-      }
-      
-      // OPEN forces SCATTER (unless we are locked in FOCUS, but let's allow backing out)
-      if (gesture === GestureType.OPEN && prev !== AppState.SCATTER) {
-        setFocusedPhotoIndex(null); // Reset focus
-        return AppState.SCATTER;
+  // Personal gesture thresholds; while the wizard runs, gestures don't change the app state
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(loadCalibration);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const isCalibratingRef = useRef(false);
+  isCalibratingRef.current = isCalibrating;
+  const [trackingListeners] = useState(() => new Set<(results: HandTrackingResult) => void>());
+
+  const handleTrackingResults = useCallback((results: HandTrackingResult) => {
+    trackingListeners.forEach((listener) => listener(results));
+  }, [trackingListeners]);
+
+  const subscribeToTracking = useCallback((listener: (results: HandTrackingResult) => void) => {
+    trackingListeners.add(listener);
+    return () => {
+      trackingListeners.delete(listener);
+    };
+  }, [trackingListeners]);
+
+  const handleSaveCalibration = (profile: CalibrationProfile) => {
+    saveCalibration(profile);
+    setCalibration(profile);
+    setIsCalibrating(false);
+  };
+
+  const handleClearCalibration = () => {
+    saveCalibration(null);
+    setCalibration(null);
+  };
+
+  // Auto-tour through the photos; any gesture pauses it
+  const [tourSettings, setTourSettings] = useState<TourSettings>(loadTourSettings);
+  const [tour, setTour] = useState<PhotoTour | null>(null);
+  const tourSettingsRef = useRef(tourSettings);
+  tourSettingsRef.current = tourSettings;
+  const isTourPlayingRef = useRef(false);
+  isTourPlayingRef.current = tour?.status === 'playing';
+  // Read by the scene every frame to move the camera while a photo is on show
+  const tourCameraRef = useRef<TourCamera | null>(null);
+  tourCameraRef.current = tour?.status === 'playing'
+    ? { transition: tourSettings.transition, shownAt: tour.shownAt, dwellMs: tourSettings.dwellMs, position: tour.position }
+    : null;
+
+  const handlePauseTour = useCallback(() => {
+    setTour((prev) => prev && pauseTour(prev, performance.now(), tourSettingsRef.current.dwellMs));
+  }, []);
+
+  // Formation the ornaments take outside TREE, and how they move between shapes
+  const [morphSettings, setMorphSettings] = useState<MorphSettings>(loadMorphSettings);
+
+  // String-light pattern and its tuning
+  const [lightSettings, setLightSettings] = useState<LightSettings>(loadLightSettings);
+
+  // The beat tempo-following patterns play on: tapped along, or heard on the microphone.
+  // A tapped or heard tempo is also written into the settings, so the slider shows it.
+  const beatClock = useMemo(createBeatClock, []);
+  const tapTempo = useMemo(createTapTempo, []);
+  const beatListenerRef = useRef<BeatListener | null>(null);
+  const [beatListening, setBeatListening] = useState<'off' | 'starting' | 'on'>('off');
+  const [beatError, setBeatError] = useState<string | null>(null);
+
+  const handleTapTempo = useCallback(() => {
+    tapTempo.tap(beatClock, performance.now() / 1000);
+    const { bpm } = beatClock;
+    if (bpm !== null) setLightSettings((prev) => withTempo(prev, bpm));
+  }, [beatClock, tapTempo]);
+
+  const handleToggleListening = async () => {
+    if (beatListening === 'starting') return;
+    if (beatListenerRef.current) {
+      beatListenerRef.current.stop();
+      beatListenerRef.current = null;
+      setBeatListening('off');
+      return;
+    }
+    setBeatListening('starting');
+    try {
+      beatListenerRef.current = await startBeatListener(beatClock, (bpm) => setLightSettings((prev) => withTempo(prev, bpm)));
+      setBeatListening('on');
+      setBeatError(null);
+    } catch (error) {
+      console.error('Could not listen for the beat', error);
+      setBeatListening('off');
+      setBeatError(error instanceof Error ? error.message : 'Listening for the beat failed');
+    }
+  };
+
+  useEffect(() => () => beatListenerRef.current?.stop(), []);
+
+  // Stills and clips of the canvas; the scene fills captureRef while it's mounted
+  const captureRef = useRef<SceneCapturer | null>(null);
+  const [snapshotScale, setSnapshotScale] = useState(2);
+  const snapshotScaleRef = useRef(snapshotScale);
+  snapshotScaleRef.current = snapshotScale;
+  const snapshotTakenRef = useRef(false); // Once per thumbs-up hold
+  const [captureError, setCaptureError] = useState<string | null>(null);
+  const [recording, setRecording] = useState<{ startedAt: number; durationMs: number } | null>(null);
+  const recordingRef = useRef<{ recording: CanvasRecording; timers: number[] } | null>(null);
+
+  const handleSnapshot = useCallback(async () => {
+    const capturer = captureRef.current;
+    if (!capturer) return;
+    try {
+      downloadCapture(await capturer.snapshot(snapshotScaleRef.current), 'snapshot');
+      setCaptureError(null);
+    } catch (error) {
+      console.error('Could not take snapshot', error);
+      setCaptureError(`Snapshot failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }, []);
+
+  const handleStopRecording = useCallback(async () => {
+    const active = recordingRef.current;
+    if (!active) return;
+    recordingRef.current = null;
+    active.timers.forEach((timer) => window.clearTimeout(timer));
+    setRecording(null);
+    try {
+      downloadCapture(await active.recording.stop(), 'clip');
+    } catch (error) {
+      console.error('Could not record clip', error);
+      setCaptureError(`Recording failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }, []);
+
+  // Records the scripted TREE -> SCATTER -> FOCUS sequence, focusing the current (or first) photo
+  const handleStartRecording = () => {
+    const capturer = captureRef.current;
+    if (!capturer || recordingRef.current) return;
+    let canvasRecording: CanvasRecording;
+    try {
+      canvasRecording = startCanvasRecording(capturer.canvas);
+    } catch (error) {
+      setCaptureError(error instanceof Error ? error.message : 'Recording failed');
+      return;
+    }
+    setCaptureError(null);
+    handlePauseTour();
+
+    const focusIndex = focusedPhotoIndex ?? 0;
+    const showState = (state: AppState) => {
+      const photoCount = photoCountRef.current;
+      if (state === AppState.TREE) stateMachine.send({ type: 'GESTURE', gesture: GestureType.FIST, target: null, photoCount });
+      else if (state === AppState.SCATTER) stateMachine.send({ type: 'GESTURE', gesture: GestureType.OPEN, target: null, photoCount });
+      else if (photoCount > 0) stateMachine.send({ type: 'SHOW_PHOTO', index: Math.min(focusIndex, photoCount - 1) });
+    };
+    const { steps, durationMs } = recordingSequence(photos.length);
+    const timers = steps.map(({ state, atMs }) => window.setTimeout(() => showState(state), atMs));
+    timers.push(window.setTimeout(handleStopRecording, durationMs));
+    recordingRef.current = { recording: canvasRecording, timers };
+    setRecording({ startedAt: performance.now(), durationMs });
+  };
+
+  const handleGestureEvent = useCallback((event: GestureEvent) => {
+    if (event.phase === 'end') {
+      setCurrentGesture((prev) => (prev === event.gesture ? GestureType.NONE : prev));
+      if (event.gesture === GestureType.THUMBS_UP) snapshotTakenRef.current = false;
+      return;
+    }
+    // Holding a thumbs up takes a snapshot
+    if (event.phase === 'hold') {
+      if (
+        event.gesture === GestureType.THUMBS_UP && event.duration >= SNAPSHOT_HOLD_MS && !snapshotTakenRef.current
+        && isSelectingEvent(event) && !isCalibratingRef.current
+      ) {
+        snapshotTakenRef.current = true;
+        handleSnapshot();
       }
+      return;
+    }
+    // Only the start of a (debounced) gesture drives transitions; holds keep the current state.
+    // The steering hand never changes state, so it can't fight the selecting hand.
+    if (event.phase !== 'start' || !isSelectingEvent(event) || isCalibratingRef.current) return;
 
-      // PINCH triggers FOCUS if we are currently SCATTERED
-      if (gesture === GestureType.PINCH && prev === AppState.SCATTER) {
-        // Pick a random photo to focus on for the demo, or cycle them
-        // In a real app, we'd raycast from hand position
-        setFocusedPhotoIndex((prevIndex) => (prevIndex === null ? 0 : (prevIndex + 1) % photos.length));
-        return AppState.FOCUS;
+    setCurrentGesture(event.gesture);
+    if (isTourPlayingRef.current) {
+      handlePauseTour();
+      return;
+    }
+    // Swipes browse photos in FOCUS; while SCATTERED they cycle through the formations, on the tree the light patterns
+    const isSwipe = event.gesture === GestureType.SWIPE_LEFT || event.gesture === GestureType.SWIPE_RIGHT;
+    const step = event.gesture === GestureType.SWIPE_RIGHT ? 1 : -1;
+    if (isSwipe && stateMachine.getState().appState === AppState.SCATTER) {
+      setMorphSettings((prev) => ({ ...prev, formation: nextFormation(prev.formation, step) }));
+      return;
+    }
+    if (isSwipe && stateMachine.getState().appState === AppState.TREE) {
+      setLightSettings((prev) => ({ ...prev, enabled: true, pattern: nextLightPattern(prev.pattern, step) }));
+      return;
+    }
+    const aimed = aimedPhotoRef.current;
+    const recentlyAimed = aimed && performance.now() - aimed.time < AIM_MEMORY_MS ? aimed.index : null;
+    const target = hoveredPhotoRef.current ?? (event.gesture === GestureType.THUMBS_UP ? recentlyAimed : null);
+    stateMachine.send({ type: 'GESTURE', gesture: event.gesture, target, photoCount: photoCountRef.current });
+  }, [stateMachine, handlePauseTour, handleSnapshot]);
+
+  // Mouse / touch / keyboard intents go through the same path as the equivalent hand gesture
+  const handleIntent = useCallback((intent: InputIntent) => {
+    const gesture = resolveIntent(intent, stateMachine.getState().appState, hoveredPhotoRef.current !== null);
+    if (gesture === null) return;
+    const timestamp = performance.now();
+    handleGestureEvent({ phase: 'start', gesture, timestamp, duration: 0 });
+    handleGestureEvent({ phase: 'end', gesture, timestamp, duration: 0 });
+  }, [stateMachine, handleGestureEvent]);
+
+  // Hand tracking only runs in 'hands' mode; HandManager offers pointer input when the camera fails
+  const [inputMode, setInputMode] = useState<InputMode>(loadInputMode);
+
+  const handleInputModeChange = (mode: InputMode) => {
+    saveInputMode(mode);
+    setInputMode(mode);
+    if (mode === 'pointer') setIsCalibrating(false);
+  };
+
+  const handleStartCalibration = () => {
+    if (inputMode !== 'hands') handleInputModeChange('hands');
+    setIsCalibrating(true);
+  };
+
+  // Restore the photo library from IndexedDB on startup
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredPhotos()
+      .then((stored) => {
+        if (cancelled || stored.length === 0) return;
+        setPhotos((prev) => [...prev, ...stored.map(toPhoto)]);
+      })
+      .catch((error) => console.error('Could not restore saved photos', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Processes files one at a time so a batch of phone photos doesn't exhaust memory
+  const handlePhotoUpload = async (files: File[]) => {
+    const queued: UploadItem[] = files.map((file) => ({
+      id: crypto.randomUUID(),
+      filename: file.name,
+      status: 'processing',
+    }));
+    // A new selection starts a fresh count: only items still being prepared carry over, so earlier
+    // results (including unread errors) don't inflate the progress
+    setUploads((prev) => [...prev.filter((u) => u.status === 'processing'), ...queued]);
+
+    const updateUpload = (id: string, patch: Partial<UploadItem>) =>
+      setUploads((prev) => prev.map((u) => (u.id === id ? { ...u, ...patch } : u)));
+
+    for (let i = 0; i < files.length; i++) {
+      try {
+        const stored = await createStoredPhoto(files[i]);
+        setPhotos((prev) => [...prev, toPhoto(stored)]);
+        updateUpload(queued[i].id, { status: 'done' });
+        // Keep the photo for this session even if it cannot be persisted
+        await saveStoredPhoto(stored).catch((error) => console.error('Could not save photo', error));
+      } catch (error) {
+        updateUpload(queued[i].id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : `${files[i].name}: upload failed`,
+        });
       }
+    }
+  };
+
+  const handleDismissUpload = (id: string) => {
+    setUploads((prev) => prev.filter((u) => u.id !== id));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
 
-      return prev;
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) handlePhotoUpload(files);
+  };
+
+  // Keep the seed in the URL so the current tree can be shared or reloaded as-is
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(seed));
+    window.history.replaceState(null, '', url);
+  }, [seed]);
+
+  const handleShuffleLayout = () => setSeed(randomSeed());
+
+  useEffect(() => {
+    saveThemePreferences(themePreferences);
+  }, [themePreferences]);
+
+  useEffect(() => {
+    saveSceneOverrides(sceneOverrides);
+  }, [sceneOverrides]);
+
+  const handleSceneSettingChange = (key: keyof SceneSettings, value: number) =>
+    setSceneOverrides((prev) => ({ ...prev, [key]: value }));
+
+  // Resets one setting, or all of them when no key is given
+  const handleResetSceneSettings = (key?: keyof SceneSettings) =>
+    setSceneOverrides((prev) => {
+      if (!key) return {};
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
     });
-  }, [photos.length]);
 
-  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const url = URL.createObjectURL(e.target.files[0]);
-      setPhotos((prev) => [...prev, url]);
+  const handleSelectTheme = (id: string) => setThemePreferences((prev) => ({ ...prev, selectedId: id }));
+
+  const handleImportTheme = async (file: File) => {
+    try {
+      const imported = importTheme(await file.text());
+      // Re-importing a theme with the same id replaces the earlier copy
+      setThemePreferences((prev) => ({
+        selectedId: imported.id,
+        custom: [...prev.custom.filter((t) => t.id !== imported.id), imported],
+      }));
+      setThemeError(null);
+    } catch (error) {
+      console.error('Could not import theme', error);
+      setThemeError(`${file.name}: ${error instanceof Error ? error.message : 'could not be imported'}`);
     }
   };
 
+  useEffect(() => {
+    saveTourSettings(tourSettings);
+  }, [tourSettings]);
+
+  useEffect(() => {
+    saveMorphSettings(morphSettings);
+  }, [morphSettings]);
+
+  useEffect(() => {
+    saveLightSettings(lightSettings);
+  }, [lightSettings]);
+
+  useEffect(() => {
+    saveSnowEnabled(isSnowing);
+  }, [isSnowing]);
+
+  useEffect(() => {
+    saveQualityPreferences(qualityPreferences);
+  }, [qualityPreferences]);
+
+  // Picking a formation from the tree scatters it into that shape
+  const handleMorphSettingsChange = (change: Partial<MorphSettings>) => {
+    setMorphSettings((prev) => ({ ...prev, ...change }));
+    if (change.formation && stateMachine.getState().appState === AppState.TREE) handleIntent('scatter');
+  };
+
+  const handleStartTour = () => setTour(createPhotoTour(photos, tourSettings.order, randomSeed(), performance.now()));
+
+  const handleResumeTour = () => setTour((prev) => prev && resumeTour(prev, performance.now(), tourSettings.dwellMs));
+
+  // Move on once the current photo has been shown for the dwell time
+  useEffect(() => {
+    if (tour?.status !== 'playing') return;
+    const timer = window.setTimeout(
+      () => setTour((prev) => prev && advanceTour(prev, performance.now())),
+      tourDelay(tour, performance.now(), tourSettings.dwellMs)
+    );
+    return () => window.clearTimeout(timer);
+  }, [tour, tourSettings.dwellMs]);
+
+  // Focus the tour's photo whenever it changes or the tour resumes; photos removed meanwhile are skipped
+  const tourPhotoId = tour?.status === 'playing' ? tour.photoIds[tour.position] : null;
+  useEffect(() => {
+    if (tourPhotoId === null) return;
+    const index = photos.findIndex((p) => p.id === tourPhotoId);
+    if (index === -1) setTour((prev) => prev && advanceTour(prev, performance.now()));
+    else stateMachine.send({ type: 'SHOW_PHOTO', index });
+  }, [tourPhotoId, photos, stateMachine]);
+
+  // Leaving FOCUS (e.g. removing the photo) pauses the tour instead of letting it pull the view back
+  useEffect(() => stateMachine.onExit(AppState.FOCUS, handlePauseTour), [stateMachine, handlePauseTour]);
+
   const handleRemovePhoto = () => {
     if (focusedPhotoIndex !== null) {
-      // Release object URL if it's a blob to prevent memory leaks
-      if (photos[focusedPhotoIndex].startsWith('blob:')) {
-        URL.revokeObjectURL(photos[focusedPhotoIndex]);
+      const photo = photos[focusedPhotoIndex];
+
+      // Release object URLs if they're blobs to prevent memory leaks
+      if (photo.url.startsWith('blob:')) {
+        deleteStoredPhoto(photo.id).catch((error) => console.error('Could not delete photo', error));
       }
+      releasePhotoUrls(photo);
       
-      setPhotos((prev) => prev.filter((_, i) => i !== focusedPhotoIndex));
-      setFocusedPhotoIndex(null);
-      setAppState(AppState.SCATTER); // Return to scatter mode after deletion
+      setPhotos((prev) => prev.filter((p) => p.id !== photo.id));
+      stateMachine.send({ type: 'REMOVE_PHOTO' });
+    }
+  };
+
+  const handleUpdatePhoto = (id: string, patch: Partial<PhotoDetails>) => {
+    const clean = sanitizePhotoDetails(patch);
+    setPhotos((prev) => prev.map((p) => (p.id === id ? { ...p, ...clean } : p)));
+    updateStoredPhoto(id, clean).catch((error) => console.error('Could not save photo details', error));
+  };
+
+  const handleExportTree = async () => {
+    setBundleTask('exporting');
+    try {
+      downloadTreeBundle(
+        await createTreeBundle({ photos, seed, theme: selectedTheme, sceneOverrides, tourSettings, morphSettings, lightSettings })
+      );
+      setBundleError(null);
+    } catch (error) {
+      console.error('Could not export tree', error);
+      setBundleError(`Export failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setBundleTask(null);
+    }
+  };
+
+  // Replaces the uploaded photos, theme, settings and layout with the bundle's.
+  // Nothing changes unless the whole file validates and every photo decodes.
+  const handleImportTree = async (file: File) => {
+    setBundleTask('importing');
+    try {
+      const { bundle, photos: imported } = await readTreeBundle(file);
+      const previous = photos.filter((p) => p.url.startsWith('blob:'));
+
+      setTour(null);
+      stateMachine.send({ type: 'REMOVE_PHOTO' });
+      previous.forEach(releasePhotoUrls);
+      setPhotos([...DEFAULT_PHOTOS, ...imported.map(toPhoto)]);
+      setSeed(bundle.seed);
+      setSceneOverrides(bundle.sceneOverrides);
+      setTourSettings(bundle.tourSettings);
+      setMorphSettings(bundle.morphSettings);
+      setLightSettings(bundle.lightSettings);
+      // A built-in theme is just selected; anything else is added like an imported theme file
+      const isBuiltIn = BUILT_IN_THEMES.some((t) => JSON.stringify(t) === JSON.stringify(bundle.theme));
+      setThemePreferences((prev) => ({
+        selectedId: bundle.theme.id,
+        custom: isBuiltIn ? prev.custom : [...prev.custom.filter((t) => t.id !== bundle.theme.id), bundle.theme],
+      }));
+      setBundleError(null);
+
+      for (const photo of previous) {
+        await deleteStoredPhoto(photo.id).catch((error) => console.error('Could not delete photo', error));
+      }
+      for (const photo of imported) {
+        await saveStoredPhoto(photo).catch((error) => console.error('Could not save photo', error));
+      }
+    } catch (error) {
+      console.error('Could not import tree', error);
+      setBundleError(`${file.name}: ${error instanceof Error ? error.message : 'could not be imported'}`);
+    } finally {
+      setBundleTask(null);
     }
   };
 
   return (
-    <div className="w-full h-screen bg-black relative overflow-hidden font-sans">
+    <div
+      className="w-full h-screen bg-black relative overflow-hidden font-sans"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       
       {/* 3D Scene Layer */}
       <Canvas
-        shadows
+        shadows={qualityTier.shadows}
         camera={{ position: [0, 0, 18], fov: 45 }}
         gl={{ antialias: false }} // Post-processing handles AA usually, better perf
-        dpr={[1, 2]}
+        dpr={[Math.min(1, qualityTier.maxDpr), qualityTier.maxDpr]}
       >
-        <color attach="background" args={['#051005']} />
-        
         <Experience 
           appState={appState} 
+          stateMachine={stateMachine}
           photos={photos} 
+          seed={seed}
+          theme={theme}
+          settings={renderSettings}
           focusedPhotoIndex={focusedPhotoIndex}
+          hoveredPhotoIndex={hoveredPhotoIndex}
           handPositionRef={handPositionRef}
+          handCursorRef={handCursorRef}
+          twoHandRef={twoHandRef}
+          hoveredPhotoRef={hoveredPhotoRef}
+          tourCameraRef={tourCameraRef}
+          captureRef={captureRef}
+          formation={morphSettings.formation}
+          morphTransition={morphSettings.transition}
+          isSnowing={isSnowing}
+          lightSettings={lightSettings}
+          beatClock={beatClock}
+          postprocessing={qualityTier.postprocessing}
+          onFrame={handleFrame}
+          onPhotoHover={handlePhotoHover}
         />
-
-        {/* Removed disableNormalPass as it is not a valid prop in current @react-three/postprocessing types */}
-        <EffectComposer>
-          <Bloom luminanceThreshold={0.5} mipmapBlur intensity={1.5} radius={0.6} />
-          <Vignette eskil={false} offset={0.1} darkness={0.6} />
-        </EffectComposer>
       </Canvas>
 
       <Loader />
 
-      {/* Logic Layer: Webcam & Gestures */}
-      <HandManager onGestureDetected={handleGestureDetected} />
+      {/* Logic Layer: Mouse / Touch / Keyboard, Webcam & Gestures */}
+      <InputManager
+        appState={appState}
+        pointerEnabled={inputMode === 'pointer'}
+        onIntent={handleIntent}
+        onHandMove={handleHandMove}
+        onTwoHandMove={handleTwoHandMove}
+      />
+      {inputMode === 'hands' && (
+        <HandManager
+          onGestureEvent={handleGestureEvent}
+          onHandMove={handleHandMove}
+          onTwoHandMove={handleTwoHandMove}
+          onHandsChange={setHands}
+          onResults={handleTrackingResults}
+          calibration={calibration}
+          provider="mediapipe"
+          onUsePointerInput={() => handleInputModeChange('pointer')}
+          maxInferenceRate={qualityTier.handTrackingFps}
+          onTrackingCost={performanceMonitor.recordTracking}
+        />
+      )}
+
+      {qualityPreferences.showStats && (
+        <PerformanceStats monitor={performanceMonitor} tier={qualityTier} isAuto={isAutoQuality} />
+      )}
 
       {/* UI Layer */}
       <InterfaceOverlay 
         appState={appState} 
         currentGesture={currentGesture} 
+        hands={hands}
         onFileUpload={handlePhotoUpload} 
+        uploads={uploads}
+        onDismissUpload={handleDismissUpload}
+        isDraggingFiles={isDraggingFiles}
         photoCount={photos.length}
+        seed={seed}
+        onShuffleLayout={handleShuffleLayout}
         isFocusMode={appState === AppState.FOCUS && focusedPhotoIndex !== null}
+        hoveredPhotoIndex={hoveredPhotoIndex}
+        stateMachine={stateMachine}
         onRemovePhoto={handleRemovePhoto}
+        focusedPhoto={focusedPhotoIndex !== null ? photos[focusedPhotoIndex] ?? null : null}
+        onUpdatePhoto={handleUpdatePhoto}
+        themes={themes}
+        selectedThemeId={selectedTheme.id}
+        onSelectTheme={handleSelectTheme}
+        onImportTheme={handleImportTheme}
+        onExportTheme={() => downloadTheme(selectedTheme)}
+        themeError={themeError}
+        onDismissThemeError={() => setThemeError(null)}
+        bundleTask={bundleTask}
+        onExportTree={handleExportTree}
+        onImportTree={handleImportTree}
+        bundleError={bundleError}
+        onDismissBundleError={() => setBundleError(null)}
+        snapshotScale={snapshotScale}
+        onSnapshotScaleChange={setSnapshotScale}
+        onSnapshot={handleSnapshot}
+        recording={recording}
+        onStartRecording={handleStartRecording}
+        onStopRecording={handleStopRecording}
+        captureError={captureError}
+        onDismissCaptureError={() => setCaptureError(null)}
+        sceneSettings={sceneSettings}
+        sceneOverrides={sceneOverrides}
+        onSceneSettingChange={handleSceneSettingChange}
+        onResetSceneSettings={handleResetSceneSettings}
+        hasCalibration={calibration !== null}
+        inputMode={inputMode}
+        onInputModeChange={handleInputModeChange}
+        onIntent={handleIntent}
+        onStartCalibration={handleStartCalibration}
+        onClearCalibration={handleClearCalibration}
+        tour={tour}
+        morphSettings={morphSettings}
+        lightSettings={lightSettings}
+        onLightSettingsChange={(change) => setLightSettings((prev) => ({ ...prev, ...change }))}
+        beatListening={beatListening}
+        onTapTempo={handleTapTempo}
+        onToggleListening={handleToggleListening}
+        beatError={beatError}
+        onDismissBeatError={() => setBeatError(null)}
+        onMorphSettingsChange={handleMorphSettingsChange}
+        isSnowing={isSnowing}
+        onToggleSnow={() => setIsSnowing((on) => !on)}
+        tourSettings={tourSettings}
+        onTourSettingsChange={(change) => setTourSettings((prev) => ({ ...prev, ...change }))}
+        qualityPreferences={qualityPreferences}
+        qualityTier={qualityTier}
+        onQualityPreferencesChange={handleQualityPreferencesChange}
+        onStartTour={handleStartTour}
+        onPauseTour={handlePauseTour}
+        onResumeTour={handleResumeTour}
+        onStopTour={() => setTour(null)}
       />
+
+      {isCalibrating && (
+        <CalibrationWizard
+          subscribe={subscribeToTracking}
+          onSave={handleSaveCalibration}
+          onCancel={() => setIsCalibrating(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Check, Hand, RotateCcw, X } from 'lucide-react';
+import { HandTrackingResult } from '../types';
+import { measureHand } from '../utils/gesturePipeline';
+import {
+  CALIBRATION_STEPS,
+  CalibrationProfile,
+  CalibrationSamples,
+  deriveCalibration,
+} from '../utils/calibration';
+
+interface CalibrationWizardProps {
+  subscribe: (listener: (results: HandTrackingResult) => void) => () => void;
+  onSave: (profile: CalibrationProfile) => void;
+  onCancel: () => void;
+}
+
+// Time to get into each pose before recording starts
+const PREPARE_MS = 1500;
+
+type WizardPhase =
+  | { kind: 'prepare'; step: number }
+  | { kind: 'record'; step: number }
+  | { kind: 'review'; profile: CalibrationProfile }
+  | { kind: 'failed'; error: string };
+
+const emptySamples = (): CalibrationSamples => ({ open: [], fist: [], pinch: [], range: [] });
+
+// Guides the user through each pose, records their hand measurements and derives a personal profile
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ subscribe, onSave, onCancel }) => {
+  const [phase, setPhase] = useState<WizardPhase>({ kind: 'prepare', step: 0 });
+  const [recorded, setRecorded] = useState(0);
+  const samplesRef = useRef<CalibrationSamples>(emptySamples());
+  const phaseRef = useRef(phase);
+  phaseRef.current = phase;
+
+  // Also updates the ref right away, so frames arriving before the next render see the new phase
+  const goTo = (next: WizardPhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  // Short pause before each step so the user can change pose
+  useEffect(() => {
+    if (phase.kind !== 'prepare') return;
+    const timer = window.setTimeout(() => setPhase({ kind: 'record', step: phase.step }), PREPARE_MS);
+    return () => window.clearTimeout(timer);
+  }, [phase]);
+
+  useEffect(() => subscribe((results) => {
+    const current = phaseRef.current;
+    if (current.kind !== 'record' || results.multiHandLandmarks.length === 0) return;
+
+    const step = CALIBRATION_STEPS[current.step];
+    const samples = samplesRef.current[step.id];
+    samples.push(measureHand(results.multiHandLandmarks[0]));
+    setRecorded(samples.length);
+    if (samples.length < step.samples) return;
+
+    const next = current.step + 1;
+    if (next < CALIBRATION_STEPS.length) {
+      goTo({ kind: 'prepare', step: next });
+      setRecorded(0);
+      return;
+    }
+    try {
+      goTo({ kind: 'review', profile: deriveCalibration(samplesRef.current) });
+    } catch (error) {
+      goTo({ kind: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }), [subscribe]);
+
+  const restart = () => {
+    samplesRef.current = emptySamples();
+    setRecorded(0);
+    goTo({ kind: 'prepare', step: 0 });
+  };
+
+  const step = phase.kind === 'prepare' || phase.kind === 'record' ? CALIBRATION_STEPS[phase.step] : null;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/50 backdrop-blur-sm pointer-events-auto">
+      <div className="w-96 bg-black/80 px-8 py-6 rounded-2xl border border-yellow-500/30 text-white/80 animate-in fade-in duration-300">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-bold tracking-widest uppercase text-yellow-500">Hand Calibration</span>
+          <button onClick={onCancel} className="text-white/50 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+
+        {step && (phase.kind === 'prepare' || phase.kind === 'record') && (
+          <>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="bg-white/10 p-3 rounded-full text-yellow-400">
+                <Hand size={24} />
+              </div>
+              <div>
+                <div className="text-[10px] uppercase tracking-widest text-white/40">
+                  Step {phase.step + 1} of {CALIBRATION_STEPS.length}
+                </div>
+                <div className="text-lg font-serif text-yellow-200">{step.title}</div>
+              </div>
+            </div>
+            <p className="text-sm text-white/70 mb-4">{step.instruction}</p>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full bg-yellow-500 transition-all duration-150"
+                style={{ width: phase.kind === 'record' ? `${(recorded / step.samples) * 100}%` : '0%' }}
+              />
+            </div>
+            <div className="mt-2 text-[10px] uppercase tracking-widest text-white/40">
+              {phase.kind === 'prepare' ? 'Get ready…' : 'Recording — keep your hand in view'}
+            </div>
+          </>
+        )}
+
+        {phase.kind === 'review' && (
+          <>
+            <p className="text-sm text-white/70 mb-4">Calibration complete. These thresholds will be used from now on.</p>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-[11px] font-mono text-white/60 mb-5">
+              <dt>Pinch start / release</dt>
+              <dd className="text-right">{phase.profile.pinchEnter.toFixed(2)} / {phase.profile.pinchExit.toFixed(2)}</dd>
+              <dt>Finger open / curled</dt>
+              <dd className="text-right">{phase.profile.extendedBend.toFixed(2)} / {phase.profile.curledBend.toFixed(2)} rad</dd>
+              <dt>Reach (width × height)</dt>
+              <dd className="text-right">
+                {Math.round((phase.profile.motionRange.maxX - phase.profile.motionRange.minX) * 100)}% ×{' '}
+                {Math.round((phase.profile.motionRange.maxY - phase.profile.motionRange.minY) * 100)}%
+              </dd>
+            </dl>
+            <div className="flex justify-end gap-3">
+              <button onClick={restart} className="flex items-center gap-1 text-xs uppercase tracking-widest text-white/50 hover:text-white">
+                <RotateCcw size={12} /> Redo
+              </button>
+              <button
+                onClick={() => onSave(phase.profile)}
+                className="flex items-center gap-1 bg-yellow-500/20 border border-yellow-500/50 px-4 py-1.5 rounded-full text-xs uppercase tracking-widest text-yellow-300 hover:bg-yellow-500/30"
+              >
+                <Check size={12} /> Save
+              </button>
+            </div>
+          </>
+        )}
+
+        {phase.kind === 'failed' && (
+          <>
+            <div className="flex items-start gap-2 bg-red-900/40 px-4 py-2 rounded-xl border border-red-500/30 mb-5">
+              <AlertCircle size={14} className="text-red-400 mt-0.5 shrink-0" />
+              <span className="text-[11px] text-red-100">{phase.error}</span>
+            </div>
+            <div className="flex justify-end">
+              <button onClick={restart} className="flex items-center gap-1 text-xs uppercase tracking-widest text-yellow-300 hover:text-yellow-100">
+                <RotateCcw size={12} /> Try again
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
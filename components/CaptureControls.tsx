@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, Square, Video } from 'lucide-react';
+import { SNAPSHOT_SCALES } from '../utils/capture';
+
+interface CaptureControlsProps {
+  snapshotScale: number;
+  onSnapshotScaleChange: (scale: number) => void;
+  onSnapshot: () => void;
+  recording: { startedAt: number; durationMs: number } | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+}
+
+const formatSeconds = (ms: number) => `${Math.max(0, Math.ceil(ms / 1000))}s`;
+
+// Save a still of the scene (optionally larger than the window) or record the tree -> scatter -> focus clip
+export const CaptureControls: React.FC<CaptureControlsProps> = ({
+  snapshotScale,
+  onSnapshotScaleChange,
+  onSnapshot,
+  recording,
+  onStartRecording,
+  onStopRecording,
+}) => {
+  const [now, setNow] = useState(() => performance.now());
+
+  // Tick the countdown while recording
+  useEffect(() => {
+    if (!recording) return;
+    setNow(performance.now());
+    const timer = window.setInterval(() => setNow(performance.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [recording]);
+
+  const iconClass = 'text-white/50 hover:text-yellow-400 transition';
+
+  return (
+    <div className="flex items-center gap-3 bg-black/40 backdrop-blur-md px-4 py-3 rounded-full border border-white/10">
+      <button onClick={onSnapshot} title="Save a snapshot (or hold a thumbs up)" className={iconClass}>
+        <Camera size={14} />
+      </button>
+      <select
+        value={snapshotScale}
+        onChange={(e) => onSnapshotScaleChange(Number(e.target.value))}
+        title="Snapshot size, relative to the window"
+        className="bg-transparent text-[10px] text-white/60 outline-none"
+      >
+        {SNAPSHOT_SCALES.map(({ value, label }) => <option key={value} value={value} className="bg-black">{label}</option>)}
+      </select>
+      {recording ? (
+        <button onClick={onStopRecording} title="Stop and save the clip" className="flex items-center gap-1.5 text-[10px] text-red-400 tracking-widest uppercase">
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+          {formatSeconds(recording.startedAt + recording.durationMs - now)}
+          <Square size={12} />
+        </button>
+      ) : (
+        <button onClick={onStartRecording} title="Record a clip: tree, scatter, focus" className={iconClass}>
+          <Video size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
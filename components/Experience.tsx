@@ -1,25 +1,65 @@
-import React, { useMemo, useRef } from 'react';
+import React, { Suspense, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Float, Environment, Image, Text } from '@react-three/drei';
+import { EffectComposer } from '@react-three/postprocessing';
+import { BloomEffect, VignetteEffect } from 'postprocessing';
+import type { EffectComposer as EffectComposerImpl } from 'postprocessing';
 import * as THREE from 'three';
 import { damp3, dampQ, damp } from 'maath/easing';
-import { AppState, ParticleData, PhotoData } from '../types';
-import { COLORS, CONFIG } from '../constants';
+import { AppState, GestureType, HandCursor, ParticleData, Photo, PhotoData, SceneSettings, Theme, TreeDimensions, TwoHandState } from '../types';
+import { PhotoPicker, PhotoTargets } from './PhotoPicker';
+import { Snow } from './Snow';
+import { LightString, placeBulbsAlong, TreeLights, WARM_WHITE_BULBS } from './TreeLights';
+import { layoutPhotoScatter, layoutPhotoTree, photoFrameSize, photoImageSize } from '../utils/photoLayout';
+import { createItemRandom, createRandom } from '../utils/random';
+import { AnimatedTheme, createAnimatedTheme, pickOrnamentShape, pickWeighted, stepAnimatedTheme } from '../utils/theme';
+import { TourCamera, tourCameraOffset } from '../utils/photoTour';
+import { photoByline } from '../utils/photoDetails';
+import { MORPH_TARGETS, morphDelay, MorphTransition, sampleMorphTarget, SCATTER_TARGET, TREE_TARGET } from '../utils/morphTargets';
+import { CaptureError, SceneCapturer, snapshotPixelRatio } from '../utils/capture';
+import { LightSettings } from '../utils/lightPatterns';
+import { BeatClock } from '../utils/beatSync';
+import { AppStateMachine } from '../utils/appStateMachine';
 
 interface ExperienceProps {
   appState: AppState;
-  photos: string[];
+  stateMachine: AppStateMachine; // Transition hooks run one-off resets (e.g. two-hand zoom on entering FOCUS)
+  photos: Photo[];
+  seed: number;
+  theme: Theme;
+  settings: SceneSettings;
   focusedPhotoIndex: number | null;
+  hoveredPhotoIndex: number | null;
   handPositionRef: React.MutableRefObject<{ x: number; y: number }>;
+  handCursorRef: React.MutableRefObject<HandCursor>;
+  twoHandRef: React.MutableRefObject<TwoHandState | null>;
+  hoveredPhotoRef: React.MutableRefObject<number | null>;
+  tourCameraRef: React.MutableRefObject<TourCamera | null>;
+  captureRef: React.MutableRefObject<SceneCapturer | null>; // Filled while mounted, for snapshots and recording
+  formation: string; // Morph target the ornaments form outside TREE
+  morphTransition: MorphTransition;
+  isSnowing: boolean;
+  lightSettings: LightSettings;
+  beatClock: BeatClock; // Tapped or heard beat, for tempo-following light patterns
+  postprocessing: boolean; // Bloom and vignette; off on the lowest quality tier
+  onFrame?: (frameMs: number) => void; // Frame time, for the performance monitor
+  onPhotoHover: (index: number | null) => void;
 }
 
 // New Component: Golden Spiral Garland
-const Garland: React.FC<{ appState: AppState }> = ({ appState }) => {
+const Garland: React.FC<{
+  appState: AppState;
+  tree: TreeDimensions;
+  loops: number;
+  rotationSpeed: number;
+  animatedTheme: AnimatedTheme;
+  lightSettings: LightSettings;
+  beatClock: BeatClock;
+}> = ({ appState, tree, loops, rotationSpeed, animatedTheme, lightSettings, beatClock }) => {
   const curve = useMemo(() => {
     const points: THREE.Vector3[] = [];
-    const loops = 5.5;
-    const height = CONFIG.TREE_HEIGHT;
-    const radiusBase = CONFIG.TREE_RADIUS_BOTTOM + 0.4; // Sit slightly outside the branches
+    const height = tree.height;
+    const radiusBase = tree.radiusBottom + 0.4; // Sit slightly outside the branches
     
     // Create a tapered spiral path
     for (let t = 0; t <= 1; t += 0.005) {
@@ -29,12 +69,21 @@ const Garland: React.FC<{ appState: AppState }> = ({ appState }) => {
       points.push(new THREE.Vector3(Math.cos(theta) * r, y, Math.sin(theta) * r));
     }
     return new THREE.CatmullRomCurve3(points);
-  }, []);
+  }, [tree.height, tree.radiusBottom, loops]);
+
+  // Warm white bulbs hanging just below the tube, more on longer garlands
+  const bulbs = useMemo(() => placeBulbsAlong(curve, Math.round(GARLAND_BULBS_PER_LOOP * loops), WARM_WHITE_BULBS).map((bulb) => ({
+    ...bulb,
+    position: [bulb.position[0], bulb.position[1] - 0.18, bulb.position[2]] as [number, number, number],
+  })), [curve, loops]);
 
   const ref = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
 
   useFrame((state, delta) => {
     if (!ref.current) return;
+    materialRef.current?.color.copy(animatedTheme.metal);
+    materialRef.current?.emissive.copy(animatedTheme.metal);
     
     // In Scatter mode, shrink the garland away. In Tree mode, show it.
     const targetScale = appState === AppState.TREE ? 1 : 0;
@@ -42,7 +91,7 @@ const Garland: React.FC<{ appState: AppState }> = ({ appState }) => {
     
     // Gentle pulsing effect
     if (appState === AppState.TREE) {
-       ref.current.rotation.y += delta * 0.05;
+       ref.current.rotation.y += delta * rotationSpeed;
     }
   });
 
@@ -50,141 +99,287 @@ const Garland: React.FC<{ appState: AppState }> = ({ appState }) => {
     <mesh ref={ref}>
       <tubeGeometry args={[curve, 128, 0.12, 8, false]} />
       <meshStandardMaterial 
-        color={COLORS.METALLIC_GOLD} 
-        emissive={COLORS.METALLIC_GOLD}
+        ref={materialRef}
         emissiveIntensity={0.6}
         metalness={1.0} 
         roughness={0.1} 
       />
+      {lightSettings.enabled && <LightString bulbs={bulbs} settings={lightSettings} beatClock={beatClock} size={0.08} />}
     </mesh>
   );
 };
 
+const GARLAND_BULBS_PER_LOOP = 16;
+
 export const Experience: React.FC<ExperienceProps> = ({ 
   appState, 
+  stateMachine,
   photos, 
+  seed,
+  theme,
+  settings,
   focusedPhotoIndex,
-  handPositionRef 
+  hoveredPhotoIndex,
+  handPositionRef,
+  handCursorRef,
+  twoHandRef,
+  hoveredPhotoRef,
+  tourCameraRef,
+  captureRef,
+  formation,
+  morphTransition,
+  isSnowing,
+  lightSettings,
+  beatClock,
+  postprocessing,
+  onFrame,
+  onPhotoHover
 }) => {
-  const { viewport } = useThree();
+  const { gl, scene, camera, size } = useThree();
   const groupRef = useRef<THREE.Group>(null);
-
-  // Generate Geometry Data
-  const { particles, photoPositions } = useMemo(() => {
+  const photoTargetsRef = useRef<PhotoTargets>(new Map());
+  const { tree, ornaments } = theme;
+
+  // Eased copy of the theme's colours, lights and effects; components read it every frame
+  const [animatedTheme] = useState(() => createAnimatedTheme(theme));
+  const lightRefs = {
+    ambient: useRef<THREE.AmbientLight>(null),
+    key: useRef<THREE.PointLight>(null),
+    fill: useRef<THREE.PointLight>(null),
+    spot: useRef<THREE.SpotLight>(null),
+    back: useRef<THREE.PointLight>(null),
+  };
+  // Effects are created here and mounted as primitives, so the theme animation can drive them every frame
+  // (the <Bloom> / <Vignette> wrappers type their refs as the effect class rather than the instance)
+  const effects = useMemo(() => ({
+    bloom: new BloomEffect({
+      mipmapBlur: true,
+      luminanceThreshold: animatedTheme.effects.bloomThreshold,
+      intensity: animatedTheme.effects.bloomIntensity,
+      radius: animatedTheme.effects.bloomRadius,
+    }),
+    vignette: new VignetteEffect({ offset: animatedTheme.effects.vignetteOffset, darkness: animatedTheme.effects.vignetteDarkness }),
+  }), [animatedTheme]);
+  useEffect(() => () => {
+    effects.bloom.dispose();
+    effects.vignette.dispose();
+  }, [effects]);
+  const composerRef = useRef<EffectComposerImpl>(null);
+
+  // Snapshots render one extra frame at a higher pixel ratio, through the effects when they're on, and read it
+  // back before restoring the on-screen size. All in one task, so the enlarged frame is never displayed.
+  useEffect(() => {
+    const render = () => {
+      if (composerRef.current) composerRef.current.render(0);
+      else gl.render(scene, camera);
+    };
+    const resize = (pixelRatio: number) => {
+      gl.setPixelRatio(pixelRatio);
+      composerRef.current?.setSize(size.width, size.height);
+    };
+
+    const snapshot = (scale: number) => {
+      const pixelRatio = gl.getPixelRatio();
+      resize(snapshotPixelRatio(scale, pixelRatio, size, gl.capabilities.maxTextureSize));
+      render();
+      // toBlob copies the drawing buffer right away, before it's cleared for the next frame
+      const encoded = new Promise<Blob>((resolve, reject) => gl.domElement.toBlob((blob) => (
+        blob ? resolve(blob) : reject(new CaptureError('encode-failed', 'The snapshot could not be encoded'))
+      ), 'image/png'));
+      resize(pixelRatio);
+      render();
+      return encoded;
+    };
+
+    captureRef.current = { snapshot, canvas: gl.domElement };
+    return () => {
+      captureRef.current = null;
+    };
+  }, [captureRef, gl, scene, camera, size]);
+
+  // Two-hand manipulation: camera distance multiplier and tree spin, each grabbed when the gesture starts
+  const twoHandControl = useMemo(() => ({ zoom: 1, zoomGrab: 1, spinGrab: 0, spinning: false }), []);
+
+  // Focusing drops the two-hand zoom so the photo gets the stage
+  useEffect(() => stateMachine.onEnter(AppState.FOCUS, () => {
+    twoHandControl.zoom = 1;
+    twoHandControl.zoomGrab = 1;
+  }), [stateMachine, twoHandControl]);
+
+  // Generate Geometry Data (ornaments depend only on the seed and theme, so adding photos never reshuffles them)
+  const particles = useMemo(() => {
+    const random = createRandom(seed);
     const tempParticles: ParticleData[] = [];
-    const tempPhotoPositions: PhotoData[] = [];
-    const count = CONFIG.PARTICLE_COUNT;
+    const count = settings.particleCount;
     const goldenAngle = Math.PI * (3 - Math.sqrt(5));
 
     // 1. Ornaments (Spheres, Cubes, Rings, Diamonds)
+    // Every ornament makes the same number of draws and its height is drawn rather than spaced by i / count,
+    // so changing the count (e.g. a quality tier) adds or removes ornaments at the end of the list and the
+    // others keep their tree and scatter spots (OrnamentBatch keeps them where they are). Only the text
+    // formation, which spreads the ornaments evenly over its letters, is laid out again.
     for (let i = 0; i < count; i++) {
-      const t = i / count; 
-      const yTree = CONFIG.TREE_HEIGHT * (t - 0.5);
+      const t = random();
+      const yTree = tree.height * (t - 0.5);
       
-      const normalizedY = (yTree + CONFIG.TREE_HEIGHT / 2) / CONFIG.TREE_HEIGHT; 
-      const maxRadiusAtY = CONFIG.TREE_RADIUS_BOTTOM * Math.pow((1 - normalizedY), 0.9) + 0.2;
+      const normalizedY = (yTree + tree.height / 2) / tree.height; 
+      const maxRadiusAtY = tree.radiusBottom * Math.pow((1 - normalizedY), 0.9) + 0.2;
       
       const theta = i * goldenAngle; 
 
-      const isSurface = Math.random() > 0.25;
+      const isSurface = random() < ornaments.surfaceRatio;
       const rScale = isSurface 
-        ? 0.9 + Math.random() * 0.25
-        : Math.random() * 0.8;
+        ? 0.9 + random() * 0.25
+        : random() * 0.8;
       
       const rCurrent = maxRadiusAtY * rScale;
 
       const xTree = Math.cos(theta) * rCurrent;
       const zTree = Math.sin(theta) * rCurrent;
 
-      const rScatter = CONFIG.SCATTER_RADIUS * Math.cbrt(Math.random());
-      const thetaScatter = Math.random() * 2 * Math.PI;
-      const phiScatter = Math.acos(2 * Math.random() - 1);
+      const rScatter = settings.scatterRadius * Math.cbrt(random());
+      const thetaScatter = random() * 2 * Math.PI;
+      const phiScatter = Math.acos(2 * random() - 1);
       
       const xScatter = rScatter * Math.sin(phiScatter) * Math.cos(thetaScatter);
       const yScatter = rScatter * Math.sin(phiScatter) * Math.sin(thetaScatter);
       const zScatter = rScatter * Math.cos(phiScatter);
 
-      // --- Shape Distribution Strategy ---
-      const randShape = Math.random();
-      let type: ParticleData['type'] = 'sphere';
-      
-      // More fancy shapes towards the surface
-      if (isSurface) {
-        if (randShape > 0.92) type = 'diamond'; // Rare fancy ornament
-        else if (randShape > 0.84) type = 'ring'; // Gold rings
-        else if (randShape > 0.6) type = 'sphere';
-        else type = 'cube';
-      } else {
-        type = Math.random() > 0.5 ? 'sphere' : 'candy';
-      }
+      // --- Shape Distribution Strategy (weights come from the theme) ---
+      const type = pickOrnamentShape(isSurface ? ornaments.surfaceShapes : ornaments.interiorShapes, random);
       
       // --- Color Logic ---
-      let color;
-      const randColor = Math.random();
-
-      // Force special shapes to be Gold
-      if (type === 'diamond' || type === 'ring') {
-        color = COLORS.METALLIC_GOLD;
-      } else {
-        if (randColor > 0.75) color = COLORS.METALLIC_GOLD; // Increased gold probability
-        else if (randColor > 0.55) color = COLORS.CHRISTMAS_RED;
-        else if (randColor > 0.25) color = COLORS.BRIGHT_GREEN;
-        else color = COLORS.MATTE_GREEN;
-
-        if (Math.random() > 0.95) color = COLORS.WHITE;
-      }
+      // Always draw, so every theme consumes the same random sequence and keeps the same positions
+      const swatch = pickWeighted(ornaments.palette, (p) => p.weight, random);
+      const isSpecial = type === 'diamond' || type === 'ring'; // Special shapes use the theme's special colour
+      const color = isSpecial ? ornaments.specialColor : swatch.color;
+      const glow = isSpecial ? ornaments.specialGlow : swatch.glow;
 
       tempParticles.push({
         id: i,
         type,
-        positionTree: [xTree, yTree, zTree],
-        positionScatter: [xScatter, yScatter, zScatter],
+        targets: {
+          [TREE_TARGET]: [xTree, yTree, zTree],
+          [SCATTER_TARGET]: [xScatter, yScatter, zScatter],
+        },
         color,
-        scale: Math.random() * 0.2 + 0.08,
+        glow,
+        scale: random() * 0.2 + 0.08,
+        smoothTime: 0.6 + random() * 0.5,
+        rank: 0,
       });
     }
 
-    // 2. Photos Cloud positions
-    photos.forEach((photoUrl, i) => {
-      const theta = (i / photos.length) * Math.PI * 8;
-      const yTree = (i / photos.length - 0.5) * CONFIG.TREE_HEIGHT * 0.7;
-      const normalizedY = (yTree + CONFIG.TREE_HEIGHT / 2) / CONFIG.TREE_HEIGHT;
-      const radiusAtY = (CONFIG.TREE_RADIUS_BOTTOM + 1.2) * (1 - normalizedY) + 0.5;
+    // 2. The other morph targets, each from its own random stream so the draws above never change
+    const context = { tree, scatterRadius: settings.scatterRadius };
+    MORPH_TARGETS.forEach(({ id, shape }) => {
+      if (!shape) return;
+      sampleMorphTarget(shape, id, count, seed, context).forEach((position, i) => {
+        tempParticles[i].targets[id] = position;
+      });
+    });
+    const rankRandom = createItemRandom(seed, 'morph:rank');
+    tempParticles.forEach((p) => {
+      p.rank = rankRandom();
+    });
 
-      const xTree = Math.cos(theta) * radiusAtY;
-      const zTree = Math.sin(theta) * radiusAtY;
+    return tempParticles;
+  }, [seed, ornaments, tree.height, tree.radiusBottom, settings.particleCount, settings.scatterRadius]);
 
-      const xScatter = (Math.random() - 0.5) * 16;
-      const yScatter = (Math.random() - 0.5) * 12;
-      const zScatter = (Math.random() - 0.5) * 8;
+  const photoPositions = useMemo(() => {
+    const tempPhotoPositions: PhotoData[] = [];
 
+    // 3. Photos Cloud positions, spaced by each photo's real size
+    const aspectRatios = photos.map((photo) => (photo.height > 0 ? photo.width / photo.height : 1));
+    const treePositions = layoutPhotoTree(aspectRatios, tree);
+    // Each photo draws from its own stream, so existing photos keep their spots when one is added
+    const randoms = photos.map((photo) => createItemRandom(seed, photo.id));
+    const scatterPositions = layoutPhotoScatter(aspectRatios, (i) => randoms[i]);
+
+    photos.forEach((photo, i) => {
       tempPhotoPositions.push({
-        id: `photo-${i}`,
-        url: photoUrl,
-        positionTree: [xTree, yTree, zTree],
-        positionScatter: [xScatter, yScatter, zScatter],
-        rotation: [0, Math.random() * 0.5, 0],
-        aspectRatio: 1, 
+        id: photo.id,
+        url: photo.url,
+        thumbnailUrl: photo.thumbnailUrl,
+        positionTree: treePositions[i],
+        positionScatter: scatterPositions[i],
+        rotation: [0, randoms[i]() * 0.5, 0],
+        aspectRatio: aspectRatios[i],
+        caption: photo.caption,
+        date: photo.date,
+        author: photo.author,
       });
     });
 
-    return { particles: tempParticles, photoPositions: tempPhotoPositions };
-  }, [photos]);
+    return tempPhotoPositions;
+  }, [photos, seed, tree.height, tree.radiusBottom]);
+
+  // One instanced batch per ornament shape
+  const particlesByType = useMemo(() => {
+    const groups = new Map<ParticleData['type'], ParticleData[]>();
+    ORNAMENT_TYPES.forEach((type) => groups.set(type, []));
+    particles.forEach((p) => groups.get(p.type)!.push(p));
+    return groups;
+  }, [particles]);
 
   // Animation Loop
   useFrame((state, delta) => {
+    onFrame?.(delta * 1000);
+
+    // Ease towards the current theme and push the values into lights, background and effects
+    stepAnimatedTheme(animatedTheme, theme, delta);
+    state.scene.background = animatedTheme.background;
+    if (lightRefs.ambient.current) {
+      lightRefs.ambient.current.color.copy(animatedTheme.ambientColor);
+      lightRefs.ambient.current.intensity = animatedTheme.ambientIntensity;
+    }
+    (['key', 'fill', 'spot', 'back'] as const).forEach((role) => {
+      const light = lightRefs[role].current;
+      if (!light) return;
+      light.position.copy(animatedTheme.lights[role].position);
+      light.color.copy(animatedTheme.lights[role].color);
+      light.intensity = animatedTheme.lights[role].intensity;
+    });
+    effects.bloom.intensity = animatedTheme.effects.bloomIntensity;
+    effects.bloom.luminanceMaterial.threshold = animatedTheme.effects.bloomThreshold;
+    effects.bloom.mipmapBlurPass.radius = animatedTheme.effects.bloomRadius;
+    effects.vignette.offset = animatedTheme.effects.vignetteOffset;
+    effects.vignette.darkness = animatedTheme.effects.vignetteDarkness;
+
     if (!groupRef.current) return;
 
+    // Spread / squeeze zooms the camera (spread = closer); turning both hands spins the tree
+    const twoHand = appState === AppState.FOCUS ? null : twoHandRef.current;
+    if (twoHand?.gesture === GestureType.ZOOM) {
+      twoHandControl.zoom = THREE.MathUtils.clamp(twoHandControl.zoomGrab / twoHand.zoom, MIN_CAMERA_ZOOM, MAX_CAMERA_ZOOM);
+    } else {
+      twoHandControl.zoomGrab = twoHandControl.zoom;
+    }
+    const isSpinning = twoHand?.gesture === GestureType.ROTATE;
+    if (isSpinning && !twoHandControl.spinning) twoHandControl.spinGrab = groupRef.current.rotation.y;
+    twoHandControl.spinning = isSpinning;
+    if (isSpinning) {
+      // Turning the hands like a steering wheel drags the front of the tree the same way
+      damp(groupRef.current.rotation, 'y', twoHandControl.spinGrab - twoHand.rotation * TWO_HAND_SPIN_GAIN, 0.1, delta);
+    }
+    const cameraDistance = 18 * twoHandControl.zoom;
+
     if (appState === AppState.SCATTER) {
         const targetX = handPositionRef.current.y * 0.5;
         const targetY = handPositionRef.current.x * 0.5;
         damp3(state.camera.rotation, [targetX, targetY, 0], 0.5, delta);
+        damp3(state.camera.position, [0, 0, cameraDistance], 1, delta);
     } else if (appState === AppState.TREE) {
-        groupRef.current.rotation.y += delta * 0.15;
-        damp3(state.camera.position, [0, 0, 18], 1, delta);
+        if (!isSpinning) groupRef.current.rotation.y += delta * settings.treeRotationSpeed;
+        damp3(state.camera.position, [0, 0, cameraDistance], 1, delta);
         damp3(state.camera.rotation, [0, 0, 0], 1, delta);
     } else if (appState === AppState.FOCUS) {
-        damp3(state.camera.position, [0, 0, 8], 1, delta);
+        // The auto-tour moves the camera around its rest position while a photo is on show
+        const tour = tourCameraRef.current;
+        const offset = tour
+          ? tourCameraOffset(tour.transition, (performance.now() - tour.shownAt) / tour.dwellMs, tour.position)
+          : { x: 0, y: 0, z: 0 };
+        damp3(state.camera.position, [offset.x, offset.y, FOCUS_CAMERA_Z + offset.z], 1, delta);
         damp3(state.camera.rotation, [0, 0, 0], 1, delta);
     }
   });
@@ -192,49 +387,248 @@ export const Experience: React.FC<ExperienceProps> = ({
   return (
     <>
       <Environment preset="city" /> 
-      <ambientLight intensity={0.5} color={COLORS.MATTE_GREEN} />
-      {/* Warm lights to highlight gold */}
-      <pointLight position={[10, 10, 10]} intensity={2.5} color="#ffaa00" />
-      <pointLight position={[-10, 5, 10]} intensity={1.5} color="#ffddaa" />
-      <spotLight position={[-10, 15, 0]} angle={0.3} penumbra={1} intensity={2} color={COLORS.CHRISTMAS_RED} castShadow />
+      {/* Light rig: colours, intensities and positions are driven by the animated theme */}
+      <ambientLight ref={lightRefs.ambient} />
+      <pointLight ref={lightRefs.key} />
+      <pointLight ref={lightRefs.fill} />
+      <spotLight ref={lightRefs.spot} angle={0.3} penumbra={1} castShadow />
       
-      <pointLight position={[0, 0, -10]} intensity={1} color="#004400" />
+      <pointLight ref={lightRefs.back} />
 
       <group ref={groupRef}>
         {/* The Golden Garland */}
-        <Garland appState={appState} />
+        <Garland
+          appState={appState}
+          tree={tree}
+          loops={settings.garlandLoops}
+          rotationSpeed={settings.garlandRotationSpeed}
+          animatedTheme={animatedTheme}
+          lightSettings={lightSettings}
+          beatClock={beatClock}
+        />
+
+        {/* String lights among the ornaments */}
+        {lightSettings.enabled && (
+          <TreeLights appState={appState} tree={tree} seed={seed} settings={lightSettings} beatClock={beatClock} />
+        )}
 
         {/* Particles */}
-        {particles.map((p) => (
-          <Particle key={p.id} data={p} appState={appState} />
+        {ORNAMENT_TYPES.map((type) => (
+          <OrnamentBatch
+            key={type}
+            type={type}
+            particles={particlesByType.get(type)!}
+            targetId={appState === AppState.TREE ? TREE_TARGET : formation}
+            transition={morphTransition}
+            extent={Math.max(settings.scatterRadius, tree.height / 2)}
+            spinSpeed={settings.ornamentSpinSpeed}
+          />
         ))}
 
         {/* Photos */}
         {photoPositions.map((p, i) => (
-          <PhotoMesh key={p.id} data={p} index={i} appState={appState} isFocused={focusedPhotoIndex === i} />
+          <PhotoMesh
+            key={p.id}
+            data={p}
+            index={i}
+            appState={appState}
+            isFocused={focusedPhotoIndex === i}
+            isHovered={hoveredPhotoIndex === i}
+            targetsRef={photoTargetsRef}
+            animatedTheme={animatedTheme}
+          />
         ))}
         
         {/* Top Star */}
-        <Star appState={appState} />
+        <Star appState={appState} tree={tree} animatedTheme={animatedTheme} />
       </group>
+
+      {/* Snow (world space, so it keeps falling straight down while the tree spins) */}
+      {isSnowing && (
+        <Snow
+          appState={appState}
+          count={settings.snowDensity}
+          flakeSize={settings.snowFlakeSize}
+          wind={settings.snowWind}
+          handPositionRef={handPositionRef}
+        />
+      )}
+
+      {/* Hand cursor & photo hit-testing (outside the rotating group so it tracks the camera) */}
+      <PhotoPicker
+        appState={appState}
+        cursorRef={handCursorRef}
+        targetsRef={photoTargetsRef}
+        hoveredPhotoRef={hoveredPhotoRef}
+        onHoverChange={onPhotoHover}
+        animatedTheme={animatedTheme}
+      />
+
+      {/* Removed disableNormalPass as it is not a valid prop in current @react-three/postprocessing types */}
+      {postprocessing && (
+        <EffectComposer ref={composerRef}>
+          <primitive object={effects.bloom} dispose={null} />
+          <primitive object={effects.vignette} dispose={null} />
+        </EffectComposer>
+      )}
     </>
   );
 };
 
-const Particle: React.FC<{ data: ParticleData; appState: AppState }> = ({ data, appState }) => {
-  const meshRef = useRef<THREE.Mesh>(null);
-  
-  useFrame((state, delta) => {
-    if (!meshRef.current) return;
-    const target = appState === AppState.TREE ? data.positionTree : data.positionScatter;
-    damp3(meshRef.current.position, target, 0.6 + Math.random() * 0.5, delta);
-    meshRef.current.rotation.x += delta * 0.5;
-    meshRef.current.rotation.y += delta * 0.5;
+const ORNAMENT_TYPES: ParticleData['type'][] = ['sphere', 'cube', 'candy', 'ring', 'diamond'];
+
+// Standard material whose emissive colour comes from each instance's colour, scaled by a per-instance intensity
+const patchInstanceEmissive = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', '#include <common>\nattribute float instanceEmissive;\nvarying float vInstanceEmissive;')
+    .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceEmissive = instanceEmissive;');
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', '#include <common>\nvarying float vInstanceEmissive;')
+    .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance = vColor * vInstanceEmissive;');
+};
+
+// All ornaments of one shape drawn as a single InstancedMesh, animated in one loop
+const OrnamentBatch: React.FC<{
+  type: ParticleData['type'];
+  particles: ParticleData[];
+  targetId: string; // Morph target the ornaments head for
+  transition: MorphTransition;
+  extent: number; // Scene radius, for wave transitions
+  spinSpeed: number;
+}> = ({ type, particles, targetId, transition, extent, spinSpeed }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const isMetal = type === 'ring' || type === 'diamond';
+  const count = particles.length;
+  // Instances are allocated with headroom and only ever grow, so a new count (quality tier, ornament
+  // setting) mostly just changes how many are drawn rather than remounting the mesh
+  const capacityRef = useRef(0);
+  if (count > capacityRef.current) capacityRef.current = Math.ceil(count * 1.5);
+  const capacity = capacityRef.current;
+  // The state below is built once; later targets are picked up frame by frame as morphs
+  const initialTargetId = useRef(targetId).current;
+
+  // Per-instance animation state lives outside React; ornaments fly out from the centre on load
+  // and glide to their new spots when the layout changes
+  const state = useMemo(() => ({
+    positions: new Float32Array(0),
+    rotation: new THREE.Euler(),
+    quaternion: new THREE.Quaternion(),
+    matrix: new THREE.Matrix4(),
+    position: new THREE.Vector3(),
+    scale: new THREE.Vector3(),
+    // Current morph: particle i heads for `from` until delays[i] seconds after `startedAt`, then for `to`
+    from: initialTargetId,
+    to: initialTargetId,
+    startedAt: 0,
+    delays: new Float32Array(0),
+    loaded: false,
+    colored: 0, // Leading instances of the current mesh whose colour and glow are set
+  }), [initialTargetId]);
+
+  // Target colour / glow per instance; the current values ease towards them so theme switches fade
+  const targets = useMemo(() => {
+    const color = new THREE.Color();
+    const colors = new Float32Array(count * 3);
+    particles.forEach((p, i) => color.set(p.color).toArray(colors, i * 3));
+    return { colors, glow: Float32Array.from(particles, (p) => p.glow), settled: false };
+  }, [particles, count]);
+
+  // Fit the buffers to the count. The particle list only grows or shrinks at its end (see the generator), so
+  // ornaments that stay keep their place; new ones appear at their current target, or at the centre on load.
+  useLayoutEffect(() => {
+    const previous = state.positions.length / 3;
+    if (previous !== count) {
+      const positions = new Float32Array(count * 3);
+      positions.set(state.positions.subarray(0, Math.min(previous, count) * 3));
+      const delays = new Float32Array(count);
+      delays.set(state.delays.subarray(0, Math.min(previous, count)));
+      if (state.loaded) {
+        for (let i = previous; i < count; i++) {
+          positions.set(particles[i].targets[state.to] ?? particles[i].targets[SCATTER_TARGET], i * 3);
+        }
+      }
+      state.positions = positions;
+      state.delays = delays;
+    }
+    state.loaded = true;
+
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    // A freshly mounted mesh takes every target instantly and new instances take theirs; the rest animate
+    if (!mesh.geometry.hasAttribute('instanceEmissive')) {
+      mesh.geometry.setAttribute('instanceEmissive', new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1));
+      state.colored = 0;
+    }
+    const emissive = mesh.geometry.getAttribute('instanceEmissive') as THREE.InstancedBufferAttribute;
+    const color = new THREE.Color();
+    for (let i = state.colored; i < count; i++) {
+      mesh.setColorAt(i, color.fromArray(targets.colors, i * 3));
+      emissive.setX(i, targets.glow[i]);
+    }
+    state.colored = count;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    emissive.needsUpdate = true;
+  }, [count, capacity, particles, targets, state]);
+
+  useFrame(({ clock }, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const { positions, rotation, quaternion, matrix, position, scale, delays } = state;
+
+    if (targetId !== state.to) {
+      state.from = state.to;
+      state.to = targetId;
+      state.startedAt = clock.elapsedTime;
+      for (let i = 0; i < count; i++) {
+        const o = i * 3;
+        const distance = Math.hypot(positions[o], positions[o + 1], positions[o + 2]) / extent;
+        delays[i] = morphDelay(transition, particles[i].rank, distance);
+      }
+    }
+    const elapsed = clock.elapsedTime - state.startedAt;
+
+    rotation.x += delta * spinSpeed;
+    rotation.y += delta * spinSpeed;
+    quaternion.setFromEuler(rotation);
+
+    for (let i = 0; i < count; i++) {
+      const p = particles[i];
+      const id = elapsed >= delays[i] ? state.to : state.from;
+      const target = p.targets[id] ?? p.targets[SCATTER_TARGET];
+      // Exponential approach, settling in roughly `smoothTime` seconds
+      const t = 1 - Math.exp((-4 * delta) / p.smoothTime);
+      const o = i * 3;
+      positions[o] += (target[0] - positions[o]) * t;
+      positions[o + 1] += (target[1] - positions[o + 1]) * t;
+      positions[o + 2] += (target[2] - positions[o + 2]) * t;
+
+      position.set(positions[o], positions[o + 1], positions[o + 2]);
+      scale.setScalar(p.scale);
+      mesh.setMatrixAt(i, matrix.compose(position, quaternion, scale));
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+
+    // Fade instance colours and glow towards the current targets
+    const emissive = mesh.geometry.getAttribute('instanceEmissive') as THREE.InstancedBufferAttribute | undefined;
+    if (!targets.settled && mesh.instanceColor && emissive) {
+      const colors = mesh.instanceColor.array as Float32Array;
+      const glow = emissive.array as Float32Array;
+      const t = 1 - Math.exp(-4 * delta);
+      let remaining = 0;
+      for (let i = 0; i < count * 3; i++) {
+        colors[i] += (targets.colors[i] - colors[i]) * t;
+        remaining = Math.max(remaining, Math.abs(targets.colors[i] - colors[i]));
+      }
+      for (let i = 0; i < count; i++) glow[i] += (targets.glow[i] - glow[i]) * t;
+      mesh.instanceColor.needsUpdate = true;
+      emissive.needsUpdate = true;
+      if (remaining < 0.002) targets.settled = true;
+    }
   });
 
   // Helper to determine geometry based on type
   const renderGeometry = () => {
-    switch (data.type) {
+    switch (type) {
       case 'cube': return <boxGeometry args={[0.7, 0.7, 0.7]} />;
       case 'ring': return <torusGeometry args={[0.3, 0.12, 8, 16]} />;
       case 'diamond': return <octahedronGeometry args={[0.5, 0]} />;
@@ -244,38 +638,99 @@ const Particle: React.FC<{ data: ParticleData; appState: AppState }> = ({ data,
     }
   };
 
+  if (count === 0) return null;
+
   return (
-    <mesh ref={meshRef} scale={data.scale}>
+    // Instances move far from the geometry's bounds, so skip per-object frustum culling
+    <instancedMesh key={capacity} ref={meshRef} args={[undefined, undefined, capacity]} count={count} frustumCulled={false}>
       {renderGeometry()}
       <meshStandardMaterial 
-        color={data.color} 
-        metalness={data.type === 'ring' || data.type === 'diamond' ? 1.0 : 0.6} 
-        roughness={data.type === 'ring' || data.type === 'diamond' ? 0.1 : 0.3} 
-        emissive={data.color}
-        emissiveIntensity={data.color === COLORS.METALLIC_GOLD ? 0.6 : 0.2}
+        metalness={isMetal ? 1.0 : 0.6} 
+        roughness={isMetal ? 0.1 : 0.3} 
+        onBeforeCompile={patchInstanceEmissive}
       />
-    </mesh>
+    </instancedMesh>
   );
 };
 
+// Camera distance multiplier range for two-hand zoom, and tree turns per radian of two-hand rotation
+const MIN_CAMERA_ZOOM = 0.5;
+const MAX_CAMERA_ZOOM = 1.8;
+const TWO_HAND_SPIN_GAIN = 2;
+
+// FOCUS: where the camera rests, world z the focused photo moves to and how much of the view it fills
+const FOCUS_CAMERA_Z = 8;
+const FOCUS_DEPTH = 5;
+const FOCUS_FILL = 0.8;
+// With a caption the photo shrinks a little and moves up (fraction of the view height) to make room below it
+const FOCUS_FILL_WITH_DETAILS = 0.7;
+const FOCUS_DETAILS_LIFT = 0.08;
+// Caption and byline size in world units, whatever the photo's scale
+const DETAILS_GAP = 0.06;
+const CAPTION_FONT_SIZE = 0.09;
+const BYLINE_FONT_SIZE = 0.06;
+const DETAILS_MAX_WIDTH = 2.2;
+// TREE mode tags hang below each photo, in the photo's own units
+const TAG_FONT_SIZE = 0.14;
+const TAG_MAX_LENGTH = 28;
+
 const PhotoMesh: React.FC<{ 
   data: PhotoData; 
   appState: AppState; 
   isFocused: boolean;
+  isHovered: boolean;
   index: number;
-}> = ({ data, appState, isFocused, index }) => {
+  targetsRef: React.MutableRefObject<PhotoTargets>;
+  animatedTheme: AnimatedTheme;
+}> = ({ data, appState, isFocused, isHovered, index, targetsRef, animatedTheme }) => {
   const ref = useRef<THREE.Group>(null);
+  const detailsRef = useRef<THREE.Group>(null);
+  const frameMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const byline = photoByline(data);
+  const hasDetails = data.caption !== '' || byline !== '';
+  const tag = data.caption || byline;
+  const imageSize = useMemo(() => photoImageSize(data.aspectRatio), [data.aspectRatio]);
+  const frameSize = useMemo(() => photoFrameSize(data.aspectRatio), [data.aspectRatio]);
+  const focusWorld = useMemo(() => new THREE.Vector3(), []);
+  const focusLocal = useMemo(() => new THREE.Vector3(), []);
+  const focusQuaternion = useMemo(() => new THREE.Quaternion(), []);
+  const parentQuaternion = useMemo(() => new THREE.Quaternion(), []);
+
+  // Register with the picker so the hand cursor can hit-test this photo
+  useEffect(() => {
+    const group = ref.current;
+    const targets = targetsRef.current;
+    if (!group) return;
+    group.userData.photoIndex = index;
+    targets.set(index, group);
+    return () => {
+      if (targets.get(index) === group) targets.delete(index);
+    };
+  }, [index, targetsRef]);
 
   useFrame((state, delta) => {
     if (!ref.current) return;
+    frameMaterialRef.current?.color.copy(animatedTheme.metal);
+    frameMaterialRef.current?.emissive.copy(animatedTheme.metal);
 
-    let targetPos = appState === AppState.TREE ? data.positionTree : data.positionScatter;
-    let targetScale = 1.0;
+    let targetPos: [number, number, number] | THREE.Vector3 = appState === AppState.TREE ? data.positionTree : data.positionScatter;
+    let targetScale = isHovered && appState === AppState.SCATTER ? 1.2 : 1.0;
+    const parent = ref.current.parent;
 
     if (appState === AppState.FOCUS) {
       if (isFocused) {
-        targetPos = [0, 0, 5]; 
-        targetScale = 3.5;
+        // Hold the photo just in front of the camera's focus position, whatever the tree's rotation,
+        // and size its frame to fill most of the view from the camera's rest position
+        // (not its current one, so camera moves during the tour read as moves)
+        const camera = state.camera as THREE.PerspectiveCamera;
+        const visibleHeight = 2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2) * (FOCUS_CAMERA_Z - FOCUS_DEPTH);
+        const fill = hasDetails ? FOCUS_FILL_WITH_DETAILS : FOCUS_FILL;
+        focusWorld.set(0, hasDetails ? visibleHeight * FOCUS_DETAILS_LIFT : 0, FOCUS_DEPTH);
+        targetPos = parent ? parent.worldToLocal(focusLocal.copy(focusWorld)) : focusWorld;
+        targetScale = Math.min(
+          (visibleHeight * camera.aspect * fill) / frameSize[0],
+          (visibleHeight * fill) / frameSize[1]
+        );
       } else {
         const originalScatter = data.positionScatter;
         targetPos = [originalScatter[0] * 1.5, originalScatter[1] * 1.5, originalScatter[2] - 10];
@@ -290,33 +745,95 @@ const PhotoMesh: React.FC<{
     damp3(ref.current.position, targetPos, 0.5, delta);
     damp(ref.current.scale, 'x', targetScale, 0.5, delta);
     damp(ref.current.scale, 'y', targetScale, 0.5, delta);
+
+    // Undo the photo's scale so the caption keeps its size as the photo grows into focus
+    if (detailsRef.current) {
+      const inverse = 1 / Math.max(ref.current.scale.y, 1e-3);
+      detailsRef.current.scale.setScalar(inverse);
+      detailsRef.current.position.y = -frameSize[1] / 2 - DETAILS_GAP * inverse;
+    }
     
     if (appState === AppState.FOCUS && isFocused) {
-       damp3(ref.current.rotation, [0, 0, 0], 0.5, delta);
+       // Face the camera: world orientation = camera's, expressed in the (possibly rotated) parent's space
+       if (parent) parent.getWorldQuaternion(parentQuaternion).invert();
+       else parentQuaternion.identity();
+       focusQuaternion.copy(parentQuaternion).multiply(state.camera.quaternion);
+       dampQ(ref.current.quaternion, focusQuaternion, 0.5, delta);
     }
   });
 
   return (
     <group ref={ref}>
       <Image 
-        url={data.url} 
-        scale={[1.5, 1.5]} 
+        url={data.thumbnailUrl} 
+        scale={imageSize} 
         transparent
         opacity={appState === AppState.FOCUS && !isFocused ? 0.1 : 1}
       />
+      {/* Full-size image over the thumbnail once focused; the thumbnail shows while it loads */}
+      {isFocused && data.url !== data.thumbnailUrl && (
+        <Suspense fallback={null}>
+          <Image url={data.url} scale={imageSize} position={[0, 0, 0.001]} transparent />
+        </Suspense>
+      )}
       <mesh position={[0, 0, -0.01]}>
-        <planeGeometry args={[1.6, 1.6]} />
-        <meshStandardMaterial color={COLORS.METALLIC_GOLD} metalness={1} roughness={0.1} />
+        <planeGeometry args={frameSize} />
+        <meshStandardMaterial
+          ref={frameMaterialRef}
+          metalness={1}
+          roughness={0.1}
+          emissiveIntensity={isHovered ? 1.5 : 0}
+        />
       </mesh>
+
+      {/* Byline and caption beneath the focused photo */}
+      {appState === AppState.FOCUS && isFocused && hasDetails && (
+        <group ref={detailsRef} position={[0, -frameSize[1] / 2, 0.01]}>
+          <Text fontSize={BYLINE_FONT_SIZE} anchorY="top" color="#e8c66a" letterSpacing={0.1}>
+            {byline.toUpperCase()}
+          </Text>
+          <Text
+            position={[0, byline ? -BYLINE_FONT_SIZE * 1.6 : 0, 0]}
+            fontSize={CAPTION_FONT_SIZE}
+            maxWidth={DETAILS_MAX_WIDTH}
+            textAlign="center"
+            anchorY="top"
+            color="#fff8e1"
+          >
+            {data.caption}
+          </Text>
+        </group>
+      )}
+
+      {/* Small tag on the tree */}
+      {appState === AppState.TREE && tag && (
+        <Text
+          position={[0, -frameSize[1] / 2 - 0.05, 0.01]}
+          fontSize={TAG_FONT_SIZE}
+          anchorY="top"
+          color="#ffe9a8"
+          outlineWidth={0.01}
+          outlineColor="#000000"
+        >
+          {tag.length > TAG_MAX_LENGTH ? `${tag.slice(0, TAG_MAX_LENGTH - 1)}…` : tag}
+        </Text>
+      )}
     </group>
   );
 };
 
-const Star: React.FC<{ appState: AppState }> = ({ appState }) => {
+const Star: React.FC<{ appState: AppState; tree: TreeDimensions; animatedTheme: AnimatedTheme }> = ({
+  appState,
+  tree,
+  animatedTheme,
+}) => {
   const ref = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
   useFrame((state, delta) => {
     if (!ref.current) return;
-    const targetY = appState === AppState.TREE ? CONFIG.TREE_HEIGHT / 2 + 1 : 10;
+    materialRef.current?.color.copy(animatedTheme.metal);
+    materialRef.current?.emissive.copy(animatedTheme.metal);
+    const targetY = appState === AppState.TREE ? tree.height / 2 + 1 : 10;
     damp3(ref.current.position, [0, targetY, 0], 1, delta);
     ref.current.rotation.y += delta;
   });
@@ -325,8 +842,7 @@ const Star: React.FC<{ appState: AppState }> = ({ appState }) => {
     <mesh ref={ref}>
       <octahedronGeometry args={[0.8, 0]} />
       <meshStandardMaterial 
-        color={COLORS.METALLIC_GOLD} 
-        emissive={COLORS.METALLIC_GOLD} 
+        ref={materialRef}
         emissiveIntensity={2} 
         toneMapped={false} 
       />
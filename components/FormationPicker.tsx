@@ -0,0 +1,35 @@
+import React from 'react';
+import { Shapes } from 'lucide-react';
+import { FORMATIONS, MORPH_TRANSITIONS, MorphSettings, MorphTransition } from '../utils/morphTargets';
+
+interface FormationPickerProps {
+  settings: MorphSettings;
+  isActive: boolean; // False in TREE, where the ornaments form the tree whatever is selected
+  onChange: (change: Partial<MorphSettings>) => void;
+}
+
+// Shape the ornaments gather into outside TREE, and how they move between shapes
+export const FormationPicker: React.FC<FormationPickerProps> = ({ settings, isActive, onChange }) => (
+  <div className="flex flex-wrap items-center justify-center gap-2 bg-black/60 backdrop-blur-md px-4 py-1.5 rounded-full border border-white/10 text-[10px] font-bold tracking-widest uppercase pointer-events-auto">
+    <Shapes size={12} className="text-white/40" />
+    {FORMATIONS.map((formation) => (
+      <button
+        key={formation.id}
+        onClick={() => onChange({ formation: formation.id })}
+        className={`px-2 py-0.5 rounded-full transition ${
+          isActive && formation.id === settings.formation ? 'bg-yellow-500/20 text-yellow-400' : 'text-white/50 hover:text-yellow-400'
+        }`}
+      >
+        {formation.label}
+      </button>
+    ))}
+    <select
+      value={settings.transition}
+      onChange={(e) => onChange({ transition: e.target.value as MorphTransition })}
+      title="Morph transition"
+      className="bg-white/5 rounded px-1 py-0.5 text-white/60 uppercase outline-none"
+    >
+      {MORPH_TRANSITIONS.map(({ value, label }) => <option key={value} value={value} className="bg-black">{label}</option>)}
+    </select>
+  </div>
+);
@@ -1,148 +1,364 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { GestureType } from '../types';
-
-declare global {
-  interface Window {
-    Hands: any;
-    Camera: any;
-  }
-}
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, Circle, Eye, EyeOff, FolderOpen, Loader2, Pause, Play, RotateCcw, Square, StepForward, X } from 'lucide-react';
+import { GestureEvent, HandCursor, HandStatus, HandTrackingResult, TwoHandState } from '../types';
+import { createHandsPipeline, HandsPipeline, HandsPipelineConfig } from '../utils/handsPipeline';
+import { CalibrationProfile, calibrationPipelineConfig, DEFAULT_MOTION_RANGE, mapPalmToScreen } from '../utils/calibration';
+import { LandmarkRecording, parseLandmarkRecording } from '../utils/landmarkRecording';
+import {
+  CameraDevice,
+  createHandTrackingProvider,
+  createLandmarkRecorder,
+  createReplayProvider,
+  downloadLandmarkRecording,
+  HandTrackingError,
+  HandTrackingFailure,
+  HandTrackingProvider,
+  HandTrackingProviderKind,
+  HandTrackingStatus,
+  listCameras,
+  LiveHandTrackingProviderKind,
+  ReplayMode,
+  ReplayProvider,
+} from '../services/handTracking';
 
 interface HandManagerProps {
-  onGestureDetected: (gesture: GestureType, x: number, y: number) => void;
+  onGestureEvent: (event: GestureEvent) => void;
+  onHandMove: (x: number, y: number, cursor: HandCursor) => void;
+  onTwoHandMove?: (state: TwoHandState | null) => void;
+  onHandsChange?: (hands: HandStatus[]) => void; // Only called when a hand's role or gesture changes
+  onResults?: (results: HandTrackingResult) => void; // Raw frames, e.g. for calibration
+  pipelineConfig?: Partial<HandsPipelineConfig>;
+  calibration?: CalibrationProfile | null; // Personal thresholds and motion range; overridden by pipelineConfig
+  provider?: LiveHandTrackingProviderKind;
+  onUsePointerInput?: () => void; // Offered when tracking cannot start
+  maxInferenceRate?: number; // Hand model runs per second at most (lowered by the quality tiers)
+  onTrackingCost?: (cost: { inferenceMs?: number; pipelineMs: number }, timestamp: number) => void;
 }
 
-export const HandManager: React.FC<HandManagerProps> = ({ onGestureDetected }) => {
+type TrackerState =
+  | { kind: HandTrackingStatus | 'paused' }
+  | { kind: HandTrackingFailure; message: string };
+
+const STATUS_LABELS: Record<HandTrackingStatus | 'paused', string> = {
+  'requesting-permission': 'Waiting for camera permission…',
+  'loading-model': 'Initializing Vision AI…',
+  running: 'Tracking',
+  paused: 'Tracking paused',
+};
+
+const HIDDEN_CURSOR: HandCursor = { x: 0, y: 0, visible: false };
+
+// Camera steering per unit of palm travel across the motion range
+const STEER_GAIN = { x: 1.4, y: 0.7 };
+
+// Recording / replay tools are only shown with ?debug in the URL
+const SHOW_DEBUG_TOOLS = new URLSearchParams(window.location.search).has('debug');
+
+export const HandManager: React.FC<HandManagerProps> = ({
+  onGestureEvent,
+  onHandMove,
+  onTwoHandMove,
+  onHandsChange,
+  onResults: onRawResults,
+  pipelineConfig,
+  calibration,
+  provider = 'mediapipe',
+  onUsePointerInput,
+  maxInferenceRate,
+  onTrackingCost,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [loading, setLoading] = useState(true);
-  const lastGestureRef = useRef<GestureType>(GestureType.NONE);
+  const [trackerState, setTrackerState] = useState<TrackerState>({ kind: 'requesting-permission' });
+  const [isPaused, setIsPaused] = useState(false);
+  const [showPreview, setShowPreview] = useState(true);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [attempt, setAttempt] = useState(0); // Bumped to retry
+  const [activeProvider, setActiveProvider] = useState<HandTrackingProviderKind | null>(null);
+  const [replay, setReplay] = useState<{ recording: LandmarkRecording; mode: ReplayMode } | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const recorderRef = useRef(createLandmarkRecorder());
+  const replayProviderRef = useRef<ReplayProvider | null>(null);
+
+  // The pipeline and motion range can change (e.g. after calibrating) without restarting the camera
+  const config = useMemo(
+    () => ({ ...(calibration ? calibrationPipelineConfig(calibration) : {}), ...pipelineConfig }),
+    [calibration, pipelineConfig]
+  );
+  const pipelineRef = useRef<HandsPipeline | null>(null);
+  const trackerRef = useRef<HandTrackingProvider | null>(null);
+  const onTrackingCostRef = useRef(onTrackingCost);
+  onTrackingCostRef.current = onTrackingCost;
+  const maxInferenceRateRef = useRef(maxInferenceRate);
+  maxInferenceRateRef.current = maxInferenceRate;
+  const motionRangeRef = useRef(DEFAULT_MOTION_RANGE);
+  motionRangeRef.current = calibration?.motionRange ?? DEFAULT_MOTION_RANGE;
+  useEffect(() => {
+    pipelineRef.current = createHandsPipeline(config);
+  }, [config]);
 
   useEffect(() => {
     const videoElement = videoRef.current;
     if (!videoElement) return;
+    if (isPaused && !replay) {
+      setTrackerState({ kind: 'paused' });
+      return;
+    }
+
+    let cancelled = false;
+    let tracker: HandTrackingProvider | null = null;
+    let handsKey = '';
+
+    const onResults = (results: HandTrackingResult) => {
+      recorderRef.current.record(results);
+      onRawResults?.(results);
+      if (!pipelineRef.current) return;
+      const pipelineStart = performance.now();
+
+      // 1. Recognize Gestures per hand (voted, held & hysteresis-filtered), assign roles and two-hand gestures
+      const frame = pipelineRef.current.process(results);
+      frame.events.forEach(onGestureEvent);
+      onTwoHandMove?.(frame.twoHand);
 
-    let camera: any = null;
-    let hands: any = null;
-
-    const onResults = (results: any) => {
-      setLoading(false);
-      
-      if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-        const landmarks = results.multiHandLandmarks[0];
-        
-        // 1. Calculate Hand Position (Center of Palm approx)
-        // Landmarks: 0 (Wrist), 9 (Middle MCP)
-        const palmX = (landmarks[0].x + landmarks[9].x) / 2;
-        const palmY = (landmarks[0].y + landmarks[9].y) / 2;
-        
-        // Normalize -1 to 1 for 3D usage (MediaPipe is 0 to 1)
-        // Invert X because webcam is mirrored
-        const normalizedX = (0.5 - palmX) * 4; 
-        const normalizedY = (0.5 - palmY) * 2;
-
-        // 2. Recognize Gestures
-        const gesture = detectGesture(landmarks);
-        
-        // Debounce simple filter could go here, but passing raw for responsiveness
-        onGestureDetected(gesture, normalizedX, normalizedY);
-        lastGestureRef.current = gesture;
-      } else {
-        onGestureDetected(GestureType.NONE, 0, 0);
+      const key = frame.hands.map((h) => `${h.label}:${h.role}:${h.gesture}`).join('|');
+      if (key !== handsKey) {
+        handsKey = key;
+        onHandsChange?.(frame.hands);
       }
+
+      // 2. Steering hand moves the camera (Center of Palm approx, already filtered)
+      // The user's motion range maps to -1..1 (X inverted because webcam is mirrored)
+      const steer = frame.steer ? mapPalmToScreen(frame.steer, motionRangeRef.current) : { x: 0, y: 0 };
+      const normalizedX = steer.x * STEER_GAIN.x;
+      const normalizedY = steer.y * STEER_GAIN.y;
+
+      // 3. Selecting hand drives the cursor in NDC for raycasting into the scene (palm stays steady while pinching)
+      const select = frame.select ? mapPalmToScreen(frame.select, motionRangeRef.current) : null;
+      const cursor: HandCursor = select
+        ? { x: clamp(select.x, -1, 1), y: clamp(select.y, -1, 1), visible: true }
+        : { x: 0, y: 0, visible: false };
+
+      onHandMove(normalizedX, normalizedY, cursor);
+      onTrackingCostRef.current?.({ inferenceMs: results.inferenceMs, pipelineMs: performance.now() - pipelineStart }, pipelineStart);
     };
 
-    const initializeMediaPipe = async () => {
-      if (!window.Hands) {
-         console.error('MediaPipe Hands not loaded via CDN');
-         return;
+    // A loaded recording replaces the live provider until the replay is closed
+    const startTracking = async () => {
+      if (replay) {
+        const replayProvider = createReplayProvider(replay.recording, replay.mode);
+        tracker = replayProvider;
+        replayProviderRef.current = replayProvider;
+        await replayProvider.start({ video: videoElement, onResults });
+        if (cancelled) return;
+        setActiveProvider('replay');
+        setTrackerState({ kind: 'running' });
+        return;
       }
 
-      hands = new window.Hands({
-        locateFile: (file: string) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-        },
-      });
-
-      hands.setOptions({
-        maxNumHands: 1,
-        modelComplexity: 1,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
-
-      hands.onResults(onResults);
-
-      if (window.Camera && videoElement) {
-        camera = new window.Camera(videoElement, {
-          onFrame: async () => {
-            await hands.send({ image: videoElement });
-          },
-          width: 640,
-          height: 480,
-        });
-        camera.start();
+      const onStatus = (status: HandTrackingStatus) => {
+        if (!cancelled) setTrackerState({ kind: status });
+      };
+
+      const live = createHandTrackingProvider(provider);
+      tracker = live;
+      try {
+        await live.start({ video: videoElement, onResults, onStatus, deviceId });
+      } catch (error) {
+        live.stop();
+        tracker = null;
+        console.warn(`Hand tracking provider "${provider}" unavailable`, error);
+        if (cancelled) return;
+        setTrackerState(error instanceof HandTrackingError
+          ? { kind: error.reason, message: error.message }
+          : { kind: 'failed', message: 'Hand tracking could not be started.' });
+        return;
       }
+      if (cancelled) return;
+      trackerRef.current = live;
+      if (maxInferenceRateRef.current) live.setMaxInferenceRate?.(maxInferenceRateRef.current);
+      setActiveProvider(provider);
+      setTrackerState({ kind: 'running' });
     };
 
-    initializeMediaPipe();
+    startTracking();
 
     return () => {
-      if (camera) camera.stop();
-      if (hands) hands.close();
+      cancelled = true;
+      tracker?.stop();
+      trackerRef.current = null;
+      replayProviderRef.current = null;
+      setActiveProvider(null);
+      // Nothing is tracked until the next start: release the camera controls and forget held gestures
+      pipelineRef.current?.reset();
+      onHandMove(0, 0, HIDDEN_CURSOR);
+      onTwoHandMove?.(null);
+      onHandsChange?.([]);
     };
-  }, [onGestureDetected]);
+  }, [onGestureEvent, onHandMove, onTwoHandMove, onHandsChange, onRawResults, provider, replay, isPaused, deviceId, attempt]);
 
-  return (
-    <>
-      <video
-        ref={videoRef}
-        className="fixed bottom-4 right-4 w-48 h-36 object-cover rounded-lg border-2 border-green-800 z-50 opacity-80 mix-blend-screen scale-x-[-1]"
-        playsInline
-      />
-      {loading && (
-        <div className="fixed bottom-20 right-4 text-green-500 text-sm animate-pulse">
-          Initializing Vision AI...
-        </div>
-      )}
-    </>
-  );
-};
+  useEffect(() => {
+    if (maxInferenceRate) trackerRef.current?.setMaxInferenceRate?.(maxInferenceRate);
+  }, [maxInferenceRate]);
 
-// Helper: Gesture Detection Logic
-function detectGesture(landmarks: any[]): GestureType {
-  // Finger Tips: 8 (Index), 12 (Middle), 16 (Ring), 20 (Pinky)
-  // Finger PIP (Joints): 6, 10, 14, 18
-  // Thumb Tip: 4
-  
-  const isFingerOpen = (tipIdx: number, pipIdx: number) => {
-    return landmarks[tipIdx].y < landmarks[pipIdx].y; // Y increases downwards
+  // Camera names are only available once permission was granted, so refresh the list when tracking runs
+  useEffect(() => {
+    if (trackerState.kind !== 'running' || activeProvider !== 'mediapipe') return;
+    let cancelled = false;
+    const refresh = () => listCameras()
+      .then((devices) => !cancelled && setCameras(devices))
+      .catch((error) => console.warn('Could not list cameras', error));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [trackerState.kind, activeProvider]);
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording) {
+      downloadLandmarkRecording(recorder.stop());
+      setIsRecording(false);
+    } else {
+      recorder.start();
+      setIsRecording(true);
+    }
   };
 
-  const indexOpen = isFingerOpen(8, 6);
-  const middleOpen = isFingerOpen(12, 10);
-  const ringOpen = isFingerOpen(16, 14);
-  const pinkyOpen = isFingerOpen(20, 18);
+  const handleRecordingFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplay({ recording: parseLandmarkRecording(await file.text()), mode: replay?.mode ?? 'realtime' });
+      setRecordingError(null);
+    } catch (error) {
+      console.error('Could not load gesture recording', error);
+      setRecordingError(error instanceof Error ? error.message : 'The recording could not be loaded.');
+    }
+  };
 
-  // Distance between Thumb Tip (4) and Index Tip (8)
-  const pinchDistance = Math.hypot(
-    landmarks[4].x - landmarks[8].x,
-    landmarks[4].y - landmarks[8].y
-  );
+  const retry = () => {
+    // A chosen camera that disappeared would fail again, so fall back to the default one
+    if (trackerState.kind === 'no-device') setDeviceId(undefined);
+    setAttempt((n) => n + 1);
+  };
+
+  const isStarting = trackerState.kind === 'requesting-permission' || trackerState.kind === 'loading-model';
+  const failureMessage = 'message' in trackerState ? trackerState.message : null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2">
+      {SHOW_DEBUG_TOOLS && (
+        <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-3 py-2 rounded-full border border-white/10 text-white/70">
+          <button onClick={toggleRecording} title={isRecording ? 'Stop & download recording' : 'Record landmarks'} disabled={!!replay}>
+            {isRecording ? <Square size={14} className="text-red-500" /> : <Circle size={14} />}
+          </button>
+          <label title="Replay a recording" className="cursor-pointer">
+            <FolderOpen size={14} />
+            <input type="file" accept="application/json" onChange={handleRecordingFile} className="hidden" />
+          </label>
+          {replay && (
+            <>
+              <button
+                onClick={() => setReplay({ ...replay, mode: replay.mode === 'realtime' ? 'step' : 'realtime' })}
+                className="text-[10px] font-bold tracking-widest uppercase"
+              >
+                {replay.mode}
+              </button>
+              {replay.mode === 'step' && (
+                <button onClick={() => replayProviderRef.current?.step()} title="Next frame">
+                  <StepForward size={14} />
+                </button>
+              )}
+              <button onClick={() => setReplay(null)} title="Back to live tracking">
+                <X size={14} />
+              </button>
+            </>
+          )}
+        </div>
+      )}
 
-  // FIST: All fingers closed
-  if (!indexOpen && !middleOpen && !ringOpen && !pinkyOpen) {
-    return GestureType.FIST;
-  }
+      {/* A recording that could not be replayed */}
+      {recordingError && (
+        <div className="w-64 bg-red-900/40 backdrop-blur-md px-4 py-3 rounded-xl border border-red-500/30 text-[11px] text-red-100">
+          <div className="flex items-start gap-2">
+            <AlertCircle size={14} className="text-red-400 mt-0.5 shrink-0" />
+            <span>{recordingError}</span>
+          </div>
+          <div className="flex justify-end mt-2 text-[10px] font-bold tracking-widest uppercase">
+            <button onClick={() => setRecordingError(null)} className="text-red-200/70 hover:text-red-100">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
 
-  // PINCH: Thumb and Index close together
-  if (pinchDistance < 0.05) {
-    return GestureType.PINCH;
-  }
+      {/* Camera problems, with a way out */}
+      {failureMessage && (
+        <div className="w-64 bg-red-900/40 backdrop-blur-md px-4 py-3 rounded-xl border border-red-500/30 text-[11px] text-red-100">
+          <div className="flex items-start gap-2">
+            <AlertCircle size={14} className="text-red-400 mt-0.5 shrink-0" />
+            <span>{failureMessage}</span>
+          </div>
+          <div className="flex justify-end gap-3 mt-2 text-[10px] font-bold tracking-widest uppercase">
+            {onUsePointerInput && (
+              <button onClick={onUsePointerInput} className="text-red-200/70 hover:text-red-100">
+                Use mouse / touch
+              </button>
+            )}
+            <button onClick={retry} className="flex items-center gap-1 text-yellow-300 hover:text-yellow-100">
+              <RotateCcw size={12} /> Retry
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Status, camera picker, preview and pause toggles */}
+      {!replay && (
+        <div className="flex items-center gap-3 bg-black/60 backdrop-blur-md px-3 py-2 rounded-full border border-white/10 text-white/70">
+          {isStarting && <Loader2 size={12} className="text-green-500 animate-spin" />}
+          {!failureMessage && (
+            <span className={`text-[10px] tracking-widest uppercase ${trackerState.kind === 'running' ? 'text-green-500/80' : 'text-white/50'}`}>
+              {STATUS_LABELS[trackerState.kind as HandTrackingStatus | 'paused']}
+            </span>
+          )}
+          {cameras.length > 1 && (
+            <select
+              value={deviceId ?? ''}
+              onChange={(e) => setDeviceId(e.target.value || undefined)}
+              title="Camera"
+              className="max-w-32 bg-transparent text-[10px] text-white/70 outline-none"
+            >
+              <option value="" className="bg-black">Default camera</option>
+              {cameras.map((camera) => (
+                <option key={camera.deviceId} value={camera.deviceId} className="bg-black">{camera.label}</option>
+              ))}
+            </select>
+          )}
+          {activeProvider === 'mediapipe' && (
+            <button onClick={() => setShowPreview((show) => !show)} title={showPreview ? 'Hide camera preview' : 'Show camera preview'} className="hover:text-yellow-400">
+              {showPreview ? <EyeOff size={14} /> : <Eye size={14} />}
+            </button>
+          )}
+          <button onClick={() => setIsPaused((paused) => !paused)} title={isPaused ? 'Resume tracking' : 'Pause tracking'} className="hover:text-yellow-400">
+            {isPaused ? <Play size={14} /> : <Pause size={14} />}
+          </button>
+        </div>
+      )}
 
-  // OPEN: At least 3 fingers open
-  if ((indexOpen && middleOpen && ringOpen) || (middleOpen && ringOpen && pinkyOpen)) {
-    return GestureType.OPEN;
-  }
+      <video
+        ref={videoRef}
+        className={`w-48 h-36 object-cover rounded-lg border-2 border-green-800 opacity-80 mix-blend-screen scale-x-[-1] ${activeProvider !== 'mediapipe' || !showPreview ? 'hidden' : ''}`}
+        playsInline
+        muted
+      />
+    </div>
+  );
+};
 
-  return GestureType.NONE;
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
 }
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState, HandCursor, TwoHandState } from '../types';
+import { createPointerInput, InputIntent, PointerInputFrame, PointerSample } from '../utils/pointerInput';
+
+interface InputManagerProps {
+  appState: AppState;
+  pointerEnabled: boolean; // Mouse / touch control; keyboard shortcuts work in every mode
+  onIntent: (intent: InputIntent) => void;
+  onHandMove: (x: number, y: number, cursor: HandCursor) => void;
+  onTwoHandMove: (state: TwoHandState | null) => void;
+}
+
+// Wheel / +- zooming ends after this long without input
+const ZOOM_IDLE_MS = 250;
+
+// The mouse / touch / keyboard counterpart of HandManager: drives the same intents, steering, cursor and zoom
+export const InputManager: React.FC<InputManagerProps> = ({ appState, pointerEnabled, onIntent, onHandMove, onTwoHandMove }) => {
+  const [input] = useState(() => createPointerInput());
+  const appStateRef = useRef(appState);
+  appStateRef.current = appState;
+  const pointerEnabledRef = useRef(pointerEnabled);
+  pointerEnabledRef.current = pointerEnabled;
+  const zoomTimerRef = useRef<number | undefined>(undefined);
+
+  const apply = (frame: PointerInputFrame) => {
+    frame.intents.forEach(onIntent);
+    onHandMove(frame.steer.x, frame.steer.y, frame.cursor);
+    onTwoHandMove(frame.twoHand);
+  };
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  const scheduleZoomEnd = () => {
+    window.clearTimeout(zoomTimerRef.current);
+    zoomTimerRef.current = window.setTimeout(() => applyRef.current(input.endZoom()), ZOOM_IDLE_MS);
+  };
+
+  // Hand the camera back in a neutral state when pointer control is switched off
+  useEffect(() => {
+    if (!pointerEnabled) return;
+    return () => {
+      window.clearTimeout(zoomTimerRef.current);
+      input.reset();
+      onHandMove(0, 0, { x: 0, y: 0, visible: false });
+      onTwoHandMove(null);
+    };
+  }, [pointerEnabled, input, onHandMove, onTwoHandMove]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Leave typing and browser shortcuts alone
+      const target = e.target as HTMLElement | null;
+      if (e.ctrlKey || e.metaKey || e.altKey || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      // Buttons keep their own Enter / Space behaviour
+      if ((e.key === 'Enter' || e.key === ' ') && target?.closest('button, label')) return;
+
+      const frame = input.key(e.key, appStateRef.current);
+      if (!frame) return;
+      e.preventDefault();
+      if (pointerEnabledRef.current) {
+        applyRef.current(frame);
+        if (frame.twoHand) scheduleZoomEnd();
+      } else {
+        // With hand tracking running the camera follows the hands, so only the intents apply
+        frame.intents.forEach(onIntent);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [input, onIntent]);
+
+  useEffect(() => () => window.clearTimeout(zoomTimerRef.current), []);
+
+  if (!pointerEnabled) return null;
+
+  const toSample = (e: React.PointerEvent): PointerSample => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      id: e.pointerId,
+      x: ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      y: -((e.clientY - rect.top) / rect.height) * 2 + 1,
+      timestamp: e.timeStamp,
+      isTouch: e.pointerType !== 'mouse',
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    // Keep receiving the drag even when it leaves the element
+    e.currentTarget.setPointerCapture(e.pointerId);
+    apply(input.down(toSample(e)));
+  };
+
+  return (
+    <div
+      className="absolute inset-0 touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={(e) => apply(input.move(toSample(e)))}
+      onPointerUp={(e) => apply(input.up(toSample(e)))}
+      onPointerCancel={(e) => apply(input.cancel(e.pointerId))}
+      onPointerLeave={(e) => e.pointerType === 'mouse' && apply(input.leave())}
+      onWheel={(e) => {
+        apply(input.wheel(e.deltaY));
+        scheduleZoomEnd();
+      }}
+    />
+  );
+};
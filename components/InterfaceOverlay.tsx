@@ -1,51 +1,376 @@
-import React from 'react';
-import { Upload, Hand, Grip, ZoomIn, Trash2 } from 'lucide-react';
-import { AppState, GestureType } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Upload, Hand, Grip, ZoomIn, Trash2, Loader2, AlertCircle, X, Shuffle, SlidersHorizontal, Maximize2, RotateCw, Move, MousePointer2, Pointer, ThumbsUp, ArrowLeftRight, Sparkles, Undo2, ChevronLeft, ChevronRight, Play, Pause, Square, Snowflake } from 'lucide-react';
+import { AppState, GestureType, HandRole, HandStatus, InputMode, Photo, SceneSettings, Theme, UploadItem } from '../types';
+import { AppStateMachine, AppTransitionEvent } from '../utils/appStateMachine';
+import { SceneSettingsOverrides } from '../utils/sceneSettings';
+import { InputIntent } from '../utils/pointerInput';
+import { PhotoTour, TourSettings } from '../utils/photoTour';
+import { QualityPreferences, QualityTier } from '../utils/quality';
+import { ThemePicker } from './ThemePicker';
+import { TreeBundleControls } from './TreeBundleControls';
+import { CaptureControls } from './CaptureControls';
+import { FormationPicker } from './FormationPicker';
+import { MorphSettings } from '../utils/morphTargets';
+import { LightsPicker } from './LightsPicker';
+import { LightSettings } from '../utils/lightPatterns';
+import { SettingsPanel } from './SettingsPanel';
+import { PhotoDetailsEditor } from './PhotoDetailsEditor';
+import { PhotoDetails } from '../utils/photoDetails';
 
 interface InterfaceOverlayProps {
   appState: AppState;
   currentGesture: GestureType;
-  onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  hands: HandStatus[];
+  onFileUpload: (files: File[]) => void;
+  uploads: UploadItem[];
+  onDismissUpload: (id: string) => void;
+  isDraggingFiles: boolean;
   photoCount: number;
+  seed: number;
+  onShuffleLayout: () => void;
   isFocusMode: boolean;
+  focusedPhoto: Photo | null;
+  onUpdatePhoto: (id: string, patch: Partial<PhotoDetails>) => void;
+  hoveredPhotoIndex: number | null;
+  stateMachine: AppStateMachine;
   onRemovePhoto: () => void;
+  themes: Theme[];
+  selectedThemeId: string;
+  onSelectTheme: (id: string) => void;
+  onImportTheme: (file: File) => void;
+  onExportTheme: () => void;
+  themeError: string | null;
+  onDismissThemeError: () => void;
+  bundleTask: 'exporting' | 'importing' | null;
+  onExportTree: () => void;
+  onImportTree: (file: File) => void;
+  bundleError: string | null;
+  onDismissBundleError: () => void;
+  snapshotScale: number;
+  onSnapshotScaleChange: (scale: number) => void;
+  onSnapshot: () => void;
+  recording: { startedAt: number; durationMs: number } | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  captureError: string | null;
+  onDismissCaptureError: () => void;
+  sceneSettings: SceneSettings;
+  sceneOverrides: SceneSettingsOverrides;
+  onSceneSettingChange: (key: keyof SceneSettings, value: number) => void;
+  onResetSceneSettings: (key?: keyof SceneSettings) => void;
+  hasCalibration: boolean;
+  onStartCalibration: () => void;
+  onClearCalibration: () => void;
+  inputMode: InputMode;
+  onInputModeChange: (mode: InputMode) => void;
+  onIntent: (intent: InputIntent) => void; // On-screen buttons for pointer mode (phones have no keyboard)
+  tour: PhotoTour | null;
+  morphSettings: MorphSettings;
+  onMorphSettingsChange: (change: Partial<MorphSettings>) => void;
+  lightSettings: LightSettings;
+  onLightSettingsChange: (change: Partial<LightSettings>) => void;
+  beatListening: 'off' | 'starting' | 'on'; // Microphone beat detection
+  onTapTempo: () => void;
+  onToggleListening: () => void;
+  beatError: string | null;
+  onDismissBeatError: () => void;
+  isSnowing: boolean;
+  onToggleSnow: () => void;
+  tourSettings: TourSettings;
+  onTourSettingsChange: (change: Partial<TourSettings>) => void;
+  qualityPreferences: QualityPreferences;
+  qualityTier: QualityTier;
+  onQualityPreferencesChange: (change: Partial<QualityPreferences>) => void;
+  onStartTour: () => void;
+  onPauseTour: () => void;
+  onResumeTour: () => void;
+  onStopTour: () => void;
 }
 
+// How long the "state changed" toast stays on screen
+const TRANSITION_TOAST_MS = 1500;
+
+const ROLE_LABELS: Record<HandRole, { label: string; icon: React.ReactNode }> = {
+  steer: { label: 'Steer', icon: <Move size={12} /> },
+  select: { label: 'Select', icon: <MousePointer2 size={12} /> },
+  both: { label: 'Steer + Select', icon: <Hand size={12} /> },
+};
+
 export const InterfaceOverlay: React.FC<InterfaceOverlayProps> = ({ 
   appState, 
   currentGesture, 
+  hands,
   onFileUpload,
+  uploads,
+  onDismissUpload,
+  isDraggingFiles,
   photoCount,
+  seed,
+  onShuffleLayout,
   isFocusMode,
-  onRemovePhoto
+  focusedPhoto,
+  onUpdatePhoto,
+  hoveredPhotoIndex,
+  stateMachine,
+  onRemovePhoto,
+  themes,
+  selectedThemeId,
+  onSelectTheme,
+  onImportTheme,
+  onExportTheme,
+  themeError,
+  onDismissThemeError,
+  bundleTask,
+  onExportTree,
+  onImportTree,
+  bundleError,
+  onDismissBundleError,
+  snapshotScale,
+  onSnapshotScaleChange,
+  onSnapshot,
+  recording,
+  onStartRecording,
+  onStopRecording,
+  captureError,
+  onDismissCaptureError,
+  sceneSettings,
+  sceneOverrides,
+  onSceneSettingChange,
+  onResetSceneSettings,
+  hasCalibration,
+  onStartCalibration,
+  onClearCalibration,
+  inputMode,
+  onInputModeChange,
+  onIntent,
+  tour,
+  morphSettings,
+  onMorphSettingsChange,
+  lightSettings,
+  onLightSettingsChange,
+  beatListening,
+  onTapTempo,
+  onToggleListening,
+  beatError,
+  onDismissBeatError,
+  isSnowing,
+  onToggleSnow,
+  tourSettings,
+  onTourSettingsChange,
+  qualityPreferences,
+  qualityTier,
+  onQualityPreferencesChange,
+  onStartTour,
+  onPauseTour,
+  onResumeTour,
+  onStopTour
 }) => {
+  const [lastTransition, setLastTransition] = useState<AppTransitionEvent | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // Briefly show which gesture caused each state change
+  useEffect(() => {
+    let timer: number | undefined;
+    const unsubscribe = stateMachine.subscribe((t) => {
+      if (t.from.appState === t.to.appState) return;
+      setLastTransition(t);
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => setLastTransition(null), TRANSITION_TOAST_MS);
+    });
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timer);
+    };
+  }, [stateMachine]);
   
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow picking the same files again
+    if (files.length > 0) onFileUpload(files);
+  };
+
+  const pendingUploads = uploads.filter((u) => u.status === 'processing').length;
+  const finishedUploads = uploads.filter((u) => u.status !== 'processing').length;
+
+  // Hands currently making a gesture; two-hand gestures are made by both, swipes are motion so no pose shows them
+  const handsMaking = (target: GestureType) =>
+    target === GestureType.ZOOM || target === GestureType.ROTATE
+      ? (currentGesture === target ? hands : [])
+      : hands.filter((h) => h.gesture === target);
+
   // Visual helper for active gesture
-  const getGestureColor = (target: GestureType) => 
-    currentGesture === target ? 'text-yellow-400 scale-110 drop-shadow-[0_0_10px_rgba(255,215,0,0.8)]' : 'text-white/50';
+  const getGestureColor = (targets: GestureType[]) => 
+    targets.some((target) => currentGesture === target || handsMaking(target).length > 0)
+      ? 'text-yellow-400 scale-110 drop-shadow-[0_0_10px_rgba(255,215,0,0.8)]'
+      : 'text-white/50';
+
+  const gestureGuide = [
+    { gestures: [GestureType.FIST], icon: <Grip size={24} />, label: 'Fist • Tree' },
+    { gestures: [GestureType.OPEN], icon: <Hand size={24} />, label: 'Open • Scatter' },
+    { gestures: [GestureType.POINT], icon: <Pointer size={24} />, label: 'Point • Aim' },
+    { gestures: [GestureType.PINCH], icon: <ZoomIn size={24} />, label: 'Pinch • Focus' },
+    { gestures: [GestureType.THUMBS_UP], icon: <ThumbsUp size={24} />, label: 'Thumbs up • Confirm, hold • Snapshot' },
+    { gestures: [GestureType.SWIPE_LEFT, GestureType.SWIPE_RIGHT], icon: <ArrowLeftRight size={24} />, label: 'Swipe • Prev / Next / Shape / Lights' },
+    { gestures: [GestureType.ZOOM], icon: <Maximize2 size={24} />, label: 'Two-hand pinch, spread • Zoom' },
+    { gestures: [GestureType.ROTATE], icon: <RotateCw size={24} />, label: 'Two-hand pinch, turn • Spin' },
+  ];
+
+  // Pointer mode: entries with an intent double as buttons, the rest describe mouse / touch actions
+  const pointerGuide: { intent?: InputIntent; icon: React.ReactNode; label: string }[] = [
+    { intent: 'tree', icon: <Grip size={20} />, label: 'Tree • T' },
+    { intent: 'scatter', icon: <Sparkles size={20} />, label: 'Scatter • S' },
+    { intent: 'back', icon: <Undo2 size={20} />, label: 'Back • Esc' },
+    { intent: 'previous', icon: <ChevronLeft size={20} />, label: 'Prev • ←' },
+    { intent: 'next', icon: <ChevronRight size={20} />, label: 'Next • →' },
+    { icon: <MousePointer2 size={20} />, label: 'Click / tap photo • Focus' },
+    { icon: <Move size={20} />, label: 'Drag • Look around' },
+    { icon: <Maximize2 size={20} />, label: 'Pinch / wheel • Zoom' },
+  ];
 
   return (
-    <div className="absolute inset-0 pointer-events-none p-8 flex flex-col justify-between z-10">
+    <div className="absolute inset-0 pointer-events-none p-4 sm:p-8 flex flex-col justify-between z-10">
       
       {/* Header */}
-      <div className="flex justify-between items-start pointer-events-auto">
+      <div className="flex flex-wrap gap-4 justify-between items-start pointer-events-auto">
         <div>
-          <h1 className="text-4xl font-serif text-yellow-500 tracking-wider drop-shadow-lg">
+          <h1 className="text-2xl sm:text-4xl font-serif text-yellow-500 tracking-wider drop-shadow-lg">
             NOEL <span className="text-red-600">MAGIC</span>
           </h1>
-          <p className="text-green-200/80 text-sm mt-1 uppercase tracking-widest">
+          <p className="hidden sm:block text-green-200/80 text-sm mt-1 uppercase tracking-widest">
             Interactive 3D Gesture Experience
           </p>
         </div>
 
-        {/* Upload Control */}
-        <label className="flex items-center gap-3 bg-green-900/40 backdrop-blur-md px-6 py-3 rounded-full border border-green-700/50 hover:bg-green-800/60 transition cursor-pointer group">
-          <Upload size={18} className="text-yellow-500 group-hover:scale-110 transition" />
-          <span className="text-xs font-bold text-green-100 tracking-widest">ADD MEMORY ({photoCount})</span>
-          <input type="file" onChange={onFileUpload} className="hidden" accept="image/*" />
-        </label>
+        <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+          {/* Input Mode */}
+          <div className="flex items-center bg-black/40 backdrop-blur-md p-1 rounded-full border border-white/10">
+            {([['hands', <Hand size={14} />, 'Hand gestures (camera)'], ['pointer', <MousePointer2 size={14} />, 'Mouse, touch & keyboard']] as const).map(([mode, icon, title]) => (
+              <button
+                key={mode}
+                onClick={() => onInputModeChange(mode)}
+                title={title}
+                className={`p-2 rounded-full transition ${inputMode === mode ? 'bg-yellow-500/20 text-yellow-400' : 'text-white/50 hover:text-yellow-400'}`}
+              >
+                {icon}
+              </button>
+            ))}
+          </div>
+
+          <ThemePicker
+            themes={themes}
+            selectedThemeId={selectedThemeId}
+            onSelectTheme={onSelectTheme}
+            onImportTheme={onImportTheme}
+            onExportTheme={onExportTheme}
+          />
+
+          <button
+            onClick={onToggleSnow}
+            title={isSnowing ? 'Stop the snow' : 'Let it snow'}
+            className={`p-3 rounded-full backdrop-blur-md border transition ${isSnowing ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-400' : 'bg-black/40 border-white/10 text-white/50 hover:text-yellow-400'}`}
+          >
+            <Snowflake size={16} />
+          </button>
+
+          <TreeBundleControls task={bundleTask} onExport={onExportTree} onImport={onImportTree} />
+
+          <CaptureControls
+            snapshotScale={snapshotScale}
+            onSnapshotScaleChange={onSnapshotScaleChange}
+            onSnapshot={onSnapshot}
+            recording={recording}
+            onStartRecording={onStartRecording}
+            onStopRecording={onStopRecording}
+          />
+
+          <button
+            onClick={() => setIsSettingsOpen((open) => !open)}
+            title="Scene settings"
+            className={`p-3 rounded-full backdrop-blur-md border transition ${isSettingsOpen ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-400' : 'bg-black/40 border-white/10 text-white/50 hover:text-yellow-400'}`}
+          >
+            <SlidersHorizontal size={16} />
+          </button>
+
+          {/* Upload Control */}
+          <label className="flex items-center gap-3 bg-green-900/40 backdrop-blur-md px-4 sm:px-6 py-3 rounded-full border border-green-700/50 hover:bg-green-800/60 transition cursor-pointer group">
+            <Upload size={18} className="text-yellow-500 group-hover:scale-110 transition" />
+            <span className="text-xs font-bold text-green-100 tracking-widest"><span className="hidden sm:inline">ADD MEMORY </span>({photoCount})</span>
+            <input type="file" onChange={handleFileInput} className="hidden" accept="image/*" multiple />
+          </label>
+        </div>
       </div>
 
+      {/* Theme / Tree Import / Capture / Beat Errors & Settings Panel */}
+      {(themeError || bundleError || captureError || beatError || isSettingsOpen) && (
+        <div className="absolute top-28 left-8 w-72 space-y-2 pointer-events-auto z-20">
+          {([
+            [themeError, onDismissThemeError],
+            [bundleError, onDismissBundleError],
+            [captureError, onDismissCaptureError],
+            [beatError, onDismissBeatError],
+          ] as const).map(([error, onDismiss], i) => error && (
+            <div key={i} className="flex items-start gap-2 bg-red-900/40 backdrop-blur-md px-4 py-2 rounded-xl border border-red-500/30">
+              <AlertCircle size={14} className="text-red-400 mt-0.5 shrink-0" />
+              <span className="flex-1 text-[11px] text-red-100 break-words">{error}</span>
+              <button onClick={onDismiss} className="text-red-300/70 hover:text-red-100">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          {isSettingsOpen && (
+            <SettingsPanel
+              settings={sceneSettings}
+              overrides={sceneOverrides}
+              onChange={onSceneSettingChange}
+              onReset={onResetSceneSettings}
+              hasCalibration={hasCalibration}
+              onStartCalibration={onStartCalibration}
+              onClearCalibration={onClearCalibration}
+              tourSettings={tourSettings}
+              onTourSettingsChange={onTourSettingsChange}
+              qualityPreferences={qualityPreferences}
+              qualityTier={qualityTier}
+              onQualityPreferencesChange={onQualityPreferencesChange}
+              onClose={() => setIsSettingsOpen(false)}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Focused Photo Details, Upload Progress & Errors */}
+      {((isFocusMode && focusedPhoto) || uploads.length > 0) && (
+        <div className="absolute top-28 right-8 w-72 space-y-2 pointer-events-auto">
+          {isFocusMode && focusedPhoto && <PhotoDetailsEditor photo={focusedPhoto} onChange={onUpdatePhoto} />}
+          {pendingUploads > 0 && (
+            <div className="flex items-center gap-3 bg-green-900/40 backdrop-blur-md px-4 py-2 rounded-xl border border-green-700/50">
+              <Loader2 size={14} className="text-yellow-500 animate-spin" />
+              <span className="text-[10px] font-bold tracking-widest uppercase text-green-100">
+                Preparing {finishedUploads + 1} of {uploads.length}
+              </span>
+              <div className="flex-1 h-1 rounded-full bg-green-950 overflow-hidden">
+                <div className="h-full bg-yellow-500 transition-all duration-300" style={{ width: `${(finishedUploads / uploads.length) * 100}%` }} />
+              </div>
+            </div>
+          )}
+          {uploads.filter((u) => u.status === 'error').map((u) => (
+            <div key={u.id} className="flex items-start gap-2 bg-red-900/40 backdrop-blur-md px-4 py-2 rounded-xl border border-red-500/30">
+              <AlertCircle size={14} className="text-red-400 mt-0.5 shrink-0" />
+              <span className="flex-1 text-[11px] text-red-100 break-words">{u.error}</span>
+              <button onClick={() => onDismissUpload(u.id)} className="text-red-300/70 hover:text-red-100">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Drop Zone Highlight */}
+      {isDraggingFiles && (
+        <div className="absolute inset-4 rounded-3xl border-2 border-dashed border-yellow-500/60 bg-yellow-500/5 flex items-center justify-center">
+          <span className="text-sm font-bold tracking-widest uppercase text-yellow-400 drop-shadow-lg">Drop photos to add memories</span>
+        </div>
+      )}
+
       {/* State Indicator */}
       <div className="absolute top-1/2 left-8 transform -translate-y-1/2 space-y-2">
         <div className={`w-1 h-16 rounded-full transition-all duration-500 ${appState === AppState.TREE ? 'bg-yellow-500 shadow-[0_0_20px_orange]' : 'bg-gray-800'}`} />
@@ -53,6 +378,24 @@ export const InterfaceOverlay: React.FC<InterfaceOverlayProps> = ({
         <div className={`w-1 h-16 rounded-full transition-all duration-500 ${appState === AppState.FOCUS ? 'bg-red-500 shadow-[0_0_20px_red]' : 'bg-gray-800'}`} />
       </div>
 
+      {/* Transition Toast */}
+      {lastTransition && (
+        <div className="absolute top-1/2 left-14 transform -translate-y-1/2 text-[10px] font-bold tracking-widest uppercase text-white/60 animate-in fade-in duration-300">
+          {lastTransition.to.appState}
+          {lastTransition.to.cause && <span className="text-yellow-500/70"> • {lastTransition.to.cause}</span>}
+        </div>
+      )}
+
+      {/* Hover Hint (Only while the hand cursor is over a photo in Scatter Mode) */}
+      {appState === AppState.SCATTER && hoveredPhotoIndex !== null && (
+        <div className="absolute top-28 left-1/2 transform -translate-x-1/2 flex items-center gap-2 bg-black/60 backdrop-blur-md px-5 py-2 rounded-full border border-yellow-500/40 animate-in fade-in duration-300">
+          <ZoomIn size={14} className="text-yellow-400" />
+          <span className="text-[10px] font-bold tracking-widest uppercase text-yellow-200">
+            Memory {hoveredPhotoIndex + 1} of {photoCount} • {inputMode === 'pointer' ? 'Click to focus' : 'Pinch or thumbs up to focus'}
+          </span>
+        </div>
+      )}
+
       {/* Delete Button (Only in Focus Mode) */}
       {isFocusMode && (
          <div className="absolute top-1/2 right-8 transform -translate-y-1/2 pointer-events-auto flex flex-col items-center gap-2 animate-in fade-in slide-in-from-right-10 duration-500">
@@ -69,34 +412,116 @@ export const InterfaceOverlay: React.FC<InterfaceOverlayProps> = ({
       {/* Footer / Instructions */}
       <div className="flex flex-col items-center gap-6">
         
-        {/* Gesture Guide */}
-        <div className="flex gap-12 bg-black/60 backdrop-blur-md px-10 py-4 rounded-2xl border border-white/10">
-          
-          <div className={`flex flex-col items-center gap-2 transition-all ${getGestureColor(GestureType.FIST)}`}>
-            <div className="bg-white/10 p-3 rounded-full">
-              <Grip size={24} />
-            </div>
-            <span className="text-[10px] font-bold tracking-widest uppercase">Fist • Tree</span>
+        {/* Auto-Tour Controls */}
+        {tour && (
+          <div className="flex items-center gap-3 bg-black/60 backdrop-blur-md px-4 py-1.5 rounded-full border border-yellow-500/30 text-[10px] font-bold tracking-widest uppercase text-yellow-200 pointer-events-auto animate-in fade-in duration-300">
+            <span>Tour • {tour.position + 1} / {tour.photoIds.length}{tour.status === 'paused' && ' • Paused'}</span>
+            <button
+              onClick={tour.status === 'playing' ? onPauseTour : onResumeTour}
+              title={tour.status === 'playing' ? 'Pause tour' : 'Resume tour'}
+              className="text-white/60 hover:text-yellow-400"
+            >
+              {tour.status === 'playing' ? <Pause size={12} /> : <Play size={12} />}
+            </button>
+            <button onClick={onStopTour} title="End tour" className="text-white/60 hover:text-yellow-400">
+              <Square size={12} />
+            </button>
           </div>
+        )}
 
-          <div className={`flex flex-col items-center gap-2 transition-all ${getGestureColor(GestureType.OPEN)}`}>
-            <div className="bg-white/10 p-3 rounded-full">
-              <Hand size={24} />
-            </div>
-            <span className="text-[10px] font-bold tracking-widest uppercase">Open • Scatter</span>
+        {/* Formation Picker (the focused photo has the stage in FOCUS) */}
+        {appState !== AppState.FOCUS && (
+          <FormationPicker settings={morphSettings} isActive={appState === AppState.SCATTER} onChange={onMorphSettingsChange} />
+        )}
+
+        {/* Light Patterns (the string lights only hang on the tree) */}
+        {appState === AppState.TREE && (
+          <LightsPicker
+            settings={lightSettings}
+            onChange={onLightSettingsChange}
+            listening={beatListening}
+            onTapTempo={onTapTempo}
+            onToggleListening={onToggleListening}
+          />
+        )}
+
+        {/* Hand Roles (which hand steers and which selects) */}
+        {hands.length > 0 && (
+          <div className="flex gap-3">
+            {hands.map((hand) => (
+              <div key={hand.label} className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-4 py-1.5 rounded-full border border-white/10 text-white/70 text-[10px] font-bold tracking-widest uppercase">
+                {ROLE_LABELS[hand.role].icon}
+                <span>{hand.label} • {ROLE_LABELS[hand.role].label}</span>
+                {hand.gesture !== GestureType.NONE && <span className="text-yellow-400">{hand.gesture}</span>}
+              </div>
+            ))}
           </div>
+        )}
 
-          <div className={`flex flex-col items-center gap-2 transition-all ${getGestureColor(GestureType.PINCH)}`}>
-            <div className="bg-white/10 p-3 rounded-full">
-              <ZoomIn size={24} />
-            </div>
-            <span className="text-[10px] font-bold tracking-widest uppercase">Pinch • Focus</span>
+        {/* Pointer Guide & Controls */}
+        {inputMode === 'pointer' && (
+          <div className="flex flex-wrap justify-center gap-x-4 sm:gap-x-8 gap-y-4 max-w-4xl bg-black/60 backdrop-blur-md px-4 sm:px-10 py-4 rounded-2xl border border-white/10 pointer-events-auto">
+            {pointerGuide.map(({ intent, icon, label }) => intent ? (
+              <button
+                key={label}
+                onClick={() => onIntent(intent)}
+                className="flex flex-col items-center gap-2 text-white/60 hover:text-yellow-400 transition-all"
+              >
+                <div className="bg-white/10 p-3 rounded-full">{icon}</div>
+                <span className="text-[10px] font-bold tracking-widest uppercase">{label}</span>
+              </button>
+            ) : (
+              <div key={label} className="hidden sm:flex flex-col items-center gap-2 text-white/40">
+                <div className="p-3">{icon}</div>
+                <span className="text-[10px] font-bold tracking-widest uppercase">{label}</span>
+              </div>
+            ))}
           </div>
+        )}
 
-        </div>
+        {/* Gesture Guide */}
+        {inputMode === 'hands' && (
+          <div className="flex flex-wrap justify-center gap-x-8 gap-y-4 max-w-4xl bg-black/60 backdrop-blur-md px-10 py-4 rounded-2xl border border-white/10">
+            {gestureGuide.map(({ gestures, icon, label }) => {
+              const making = gestures.flatMap(handsMaking);
+              return (
+                <div key={gestures[0]} className={`relative flex flex-col items-center gap-2 transition-all ${getGestureColor(gestures)}`}>
+                  <div className="bg-white/10 p-3 rounded-full">
+                    {icon}
+                  </div>
+                  <span className="text-[10px] font-bold tracking-widest uppercase">{label}</span>
+                  {/* Which hand is making it right now */}
+                  {making.length > 0 && (
+                    <span className="absolute -top-2 -right-3 bg-yellow-500 text-black text-[9px] font-bold rounded-full px-1.5">
+                      {making.map((h) => h.label[0]).join('+')}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
 
-        <div className="text-white/30 text-xs">
-          Use your hand in front of the camera to control the magic.
+        <div className="flex items-center gap-4 text-white/30 text-xs pointer-events-auto">
+          <span className="hidden sm:inline">
+            {inputMode === 'hands'
+              ? 'Use your hand in front of the camera to control the magic.'
+              : 'Tap the tree to scatter it, tap a photo to focus it and swipe to browse.'}
+          </span>
+          {!tour && photoCount > 0 && (
+            <button onClick={onStartTour} title="Show the photos one by one" className="flex items-center gap-1 hover:text-yellow-400 transition">
+              <Play size={12} />
+              Tour
+            </button>
+          )}
+          <button
+            onClick={onShuffleLayout}
+            title="New layout"
+            className="flex items-center gap-1 font-mono hover:text-yellow-400 transition"
+          >
+            <Shuffle size={12} />
+            #{seed}
+          </button>
         </div>
       </div>
     </div>
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Lightbulb, LightbulbOff, Mic, MicOff } from 'lucide-react';
+import { lightPattern, LIGHT_PATTERNS, LightSettings } from '../utils/lightPatterns';
+
+interface LightsPickerProps {
+  settings: LightSettings;
+  onChange: (change: Partial<LightSettings>) => void;
+  listening: 'off' | 'starting' | 'on';
+  onTapTempo: () => void;
+  onToggleListening: () => void;
+}
+
+// String lights on / off, the pattern they play and that pattern's parameters; tempo-following patterns also get
+// tap tempo and listening for the beat on the microphone
+export const LightsPicker: React.FC<LightsPickerProps> = ({ settings, onChange, listening, onTapTempo, onToggleListening }) => {
+  const pattern = lightPattern(settings.pattern);
+  const params = settings.params[pattern.id];
+
+  const handleParamChange = (key: string, value: number) => {
+    onChange({ params: { ...settings.params, [pattern.id]: { ...params, [key]: value } } });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 bg-black/60 backdrop-blur-md px-4 py-1.5 rounded-full border border-white/10 text-[10px] font-bold tracking-widest uppercase pointer-events-auto">
+      <button
+        onClick={() => onChange({ enabled: !settings.enabled })}
+        title={settings.enabled ? 'Switch the lights off' : 'Switch the lights on'}
+        className={settings.enabled ? 'text-yellow-400' : 'text-white/40 hover:text-yellow-400'}
+      >
+        {settings.enabled ? <Lightbulb size={12} /> : <LightbulbOff size={12} />}
+      </button>
+      {LIGHT_PATTERNS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => onChange({ enabled: true, pattern: id })}
+          className={`px-2 py-0.5 rounded-full transition ${
+            settings.enabled && id === pattern.id ? 'bg-yellow-500/20 text-yellow-400' : 'text-white/50 hover:text-yellow-400'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+      {settings.enabled && pattern.params.map(({ key, label, min, max, step }) => (
+        <label key={key} className="flex items-center gap-1.5 text-white/50" title={`${label}: ${params[key]}`}>
+          {label}
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={params[key]}
+            onChange={(e) => handleParamChange(key, Number(e.target.value))}
+            className="w-16 h-1 accent-yellow-500"
+          />
+        </label>
+      ))}
+      {settings.enabled && pattern.tempoParam && (
+        <>
+          <button
+            onClick={onTapTempo}
+            title="Tap along to the music to set the tempo and the beat"
+            className="px-2 py-0.5 rounded-full border border-white/20 text-white/70 hover:text-yellow-400 active:bg-yellow-500/20"
+          >
+            Tap
+          </button>
+          <button
+            onClick={onToggleListening}
+            disabled={listening === 'starting'}
+            title={listening === 'on' ? 'Stop listening for the beat' : 'Listen for the beat on the microphone'}
+            className={listening === 'on' ? 'text-yellow-400 animate-pulse' : 'text-white/50 hover:text-yellow-400 disabled:opacity-40'}
+          >
+            {listening === 'on' ? <Mic size={12} /> : <MicOff size={12} />}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
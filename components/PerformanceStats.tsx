@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { PerformanceMonitor, PerformanceSnapshot } from '../utils/performanceMonitor';
+import { QualityTier } from '../utils/quality';
+
+interface PerformanceStatsProps {
+  monitor: PerformanceMonitor;
+  tier: QualityTier;
+  isAuto: boolean;
+}
+
+// How often the figures refresh; the monitor itself updates every frame
+const REFRESH_MS = 500;
+
+const formatMs = (ms: number | null) => (ms === null ? '–' : `${ms.toFixed(1)} ms`);
+
+// Small corner readout of the frame rate, hand tracking cost and active quality tier
+export const PerformanceStats: React.FC<PerformanceStatsProps> = ({ monitor, tier, isAuto }) => {
+  const [stats, setStats] = useState<PerformanceSnapshot>(monitor.snapshot);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setStats(monitor.snapshot()), REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [monitor]);
+
+  const rows: [string, string][] = [
+    ['Frame', `${stats.fps.toFixed(0)} fps • ${formatMs(stats.frameMs)}`],
+    ['Hand model', formatMs(stats.inferenceMs)],
+    ['Gestures', formatMs(stats.pipelineMs)],
+    ['Tracking', stats.trackingFps === null ? '–' : `${stats.trackingFps.toFixed(0)} fps`],
+  ];
+
+  return (
+    <div className="fixed bottom-4 left-4 z-20 bg-black/70 backdrop-blur-md px-3 py-2 rounded-xl border border-white/10 text-[10px] font-mono text-white/70 pointer-events-none">
+      <div className="flex items-center gap-1.5 mb-1 font-sans font-bold tracking-widest uppercase text-yellow-500">
+        <Activity size={10} />
+        {tier.label}{isAuto && ' • Auto'}
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-white/40">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { PenLine } from 'lucide-react';
+import { Photo } from '../types';
+import { PHOTO_DETAIL_LIMITS, PhotoDetails } from '../utils/photoDetails';
+
+interface PhotoDetailsEditorProps {
+  photo: Photo;
+  onChange: (id: string, patch: Partial<PhotoDetails>) => void;
+}
+
+const detailsOf = ({ caption, date, author }: Photo): PhotoDetails => ({ caption, date, author });
+
+// Caption, date and author of the focused photo; each field is saved when it loses focus or on Enter
+export const PhotoDetailsEditor: React.FC<PhotoDetailsEditorProps> = ({ photo, onChange }) => {
+  const [draft, setDraft] = useState<PhotoDetails>(() => detailsOf(photo));
+
+  // Start over when another photo is focused (e.g. swiping or the tour)
+  useEffect(() => {
+    setDraft(detailsOf(photo));
+  }, [photo]);
+
+  const commit = (key: keyof PhotoDetails) => {
+    if (draft[key] !== photo[key]) onChange(photo.id, { [key]: draft[key] });
+  };
+
+  const fieldProps = (key: keyof PhotoDetails) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDraft((prev) => ({ ...prev, [key]: e.target.value })),
+    onBlur: () => commit(key),
+    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') e.currentTarget.blur();
+    },
+    className: 'w-full bg-white/5 rounded px-2 py-1 text-[11px] text-white/90 outline-none focus:ring-1 focus:ring-yellow-500/50',
+  });
+
+  return (
+    <div className="bg-black/70 backdrop-blur-md px-5 py-4 rounded-2xl border border-white/10 text-white/70 space-y-2 animate-in fade-in duration-300">
+      <div className="flex items-center gap-1.5 text-[10px] font-bold tracking-widest uppercase text-yellow-500">
+        <PenLine size={12} />
+        Memory Details
+      </div>
+      <input {...fieldProps('caption')} placeholder="Caption" maxLength={PHOTO_DETAIL_LIMITS.caption} />
+      <div className="flex gap-2">
+        <input {...fieldProps('date')} type="date" title="Date taken" />
+        <input {...fieldProps('author')} placeholder="Author" maxLength={PHOTO_DETAIL_LIMITS.author} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { damp3, damp } from 'maath/easing';
+import { AppState, HandCursor } from '../types';
+import { AnimatedTheme } from '../utils/theme';
+
+// Photo index -> Object3D, filled by each PhotoMesh so the picker can raycast against them
+export type PhotoTargets = Map<number, THREE.Object3D>;
+
+interface PhotoPickerProps {
+  appState: AppState;
+  cursorRef: React.MutableRefObject<HandCursor>;
+  targetsRef: React.MutableRefObject<PhotoTargets>;
+  hoveredPhotoRef: React.MutableRefObject<number | null>;
+  onHoverChange: (index: number | null) => void;
+  animatedTheme: AnimatedTheme;
+}
+
+// Distance from the camera at which the cursor floats when it is not over a photo
+const CURSOR_DEPTH = 10;
+
+// Projects the hand cursor into the scene, keeps track of the photo under it and draws a glowing pointer
+export const PhotoPicker: React.FC<PhotoPickerProps> = ({
+  appState,
+  cursorRef,
+  targetsRef,
+  hoveredPhotoRef,
+  onHoverChange,
+  animatedTheme,
+}) => {
+  const cursorMeshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const ndc = useMemo(() => new THREE.Vector2(), []);
+  const targetPoint = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((state, delta) => {
+    const cursor = cursorRef.current;
+    const active = appState === AppState.SCATTER && cursor.visible;
+    let hovered: number | null = null;
+
+    if (active) {
+      ndc.set(cursor.x, cursor.y);
+      raycaster.setFromCamera(ndc, state.camera);
+
+      const hit = raycaster.intersectObjects(Array.from(targetsRef.current.values()), true)[0];
+      if (hit) {
+        hovered = findPhotoIndex(hit.object);
+        targetPoint.copy(hit.point);
+      } else {
+        raycaster.ray.at(CURSOR_DEPTH, targetPoint);
+      }
+    }
+
+    if (hovered !== hoveredPhotoRef.current) {
+      hoveredPhotoRef.current = hovered;
+      onHoverChange(hovered);
+    }
+
+    materialRef.current?.color.copy(animatedTheme.metal);
+    materialRef.current?.emissive.copy(animatedTheme.metal);
+
+    if (!cursorMeshRef.current) return;
+    if (active) {
+      damp3(cursorMeshRef.current.position, targetPoint, 0.08, delta);
+    }
+    const targetScale = active ? (hovered !== null ? 1.6 : 1) : 0;
+    damp(cursorMeshRef.current.scale, 'x', targetScale, 0.15, delta);
+    damp(cursorMeshRef.current.scale, 'y', targetScale, 0.15, delta);
+    damp(cursorMeshRef.current.scale, 'z', targetScale, 0.15, delta);
+  });
+
+  return (
+    <mesh ref={cursorMeshRef} scale={0}>
+      <sphereGeometry args={[0.12, 16, 16]} />
+      <meshStandardMaterial
+        ref={materialRef}
+        emissiveIntensity={3}
+        toneMapped={false}
+      />
+    </mesh>
+  );
+};
+
+// Walks up from the intersected mesh to the PhotoMesh group that registered the index
+function findPhotoIndex(object: THREE.Object3D | null): number | null {
+  while (object) {
+    if (typeof object.userData.photoIndex === 'number') return object.userData.photoIndex;
+    object = object.parent;
+  }
+  return null;
+}
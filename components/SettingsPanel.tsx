@@ -0,0 +1,171 @@
+import React from 'react';
+import { Gauge, Hand, RotateCcw, X } from 'lucide-react';
+import { SceneSettings } from '../types';
+import { SCENE_SETTING_FIELDS, SceneSettingsOverrides } from '../utils/sceneSettings';
+import { TOUR_DWELL_RANGE, TOUR_ORDERS, TOUR_TRANSITIONS, TourSettings } from '../utils/photoTour';
+import { QUALITY_TIERS, QualityPreferences, QualityTier } from '../utils/quality';
+
+interface SettingsPanelProps {
+  settings: SceneSettings;
+  overrides: SceneSettingsOverrides;
+  onChange: (key: keyof SceneSettings, value: number) => void;
+  onReset: (key?: keyof SceneSettings) => void;
+  hasCalibration: boolean;
+  onStartCalibration: () => void;
+  onClearCalibration: () => void;
+  tourSettings: TourSettings;
+  onTourSettingsChange: (change: Partial<TourSettings>) => void;
+  qualityPreferences: QualityPreferences;
+  qualityTier: QualityTier; // Tier in use, which 'auto' picks
+  onQualityPreferencesChange: (change: Partial<QualityPreferences>) => void;
+  onClose: () => void;
+}
+
+// Live sliders for the scene settings; changed values are marked and can be reset one by one or all at once
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  overrides,
+  onChange,
+  onReset,
+  hasCalibration,
+  onStartCalibration,
+  onClearCalibration,
+  tourSettings,
+  onTourSettingsChange,
+  qualityPreferences,
+  qualityTier,
+  onQualityPreferencesChange,
+  onClose,
+}) => {
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  return (
+    <div className="bg-black/70 backdrop-blur-md px-5 py-4 rounded-2xl border border-white/10 text-white/70 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-widest uppercase text-yellow-500">Scene Settings</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onReset()}
+            disabled={!hasOverrides}
+            title="Reset all to defaults"
+            className="flex items-center gap-1 text-[10px] uppercase tracking-widest hover:text-yellow-400 transition disabled:opacity-30 disabled:hover:text-white/70"
+          >
+            <RotateCcw size={12} />
+            Reset
+          </button>
+          <button onClick={onClose} className="hover:text-white">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {SCENE_SETTING_FIELDS.map(({ key, label, min, max, step }) => {
+          const isOverridden = key in overrides;
+          return (
+            <div key={key}>
+              <div className="flex items-center justify-between text-[11px]">
+                <button
+                  onClick={() => onReset(key)}
+                  disabled={!isOverridden}
+                  title={isOverridden ? 'Reset to default' : undefined}
+                  className={`text-left ${isOverridden ? 'text-yellow-200 hover:text-yellow-400' : ''}`}
+                >
+                  {label}{isOverridden && ' •'}
+                </button>
+                <span className="font-mono text-white/50">{settings[key]}</span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings[key]}
+                onChange={(e) => onChange(key, Number(e.target.value))}
+                className="w-full h-1 accent-yellow-500"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-white/10 space-y-2 text-[11px]">
+        <div>
+          <div className="flex items-center justify-between">
+            <span>Tour: seconds per photo</span>
+            <span className="font-mono text-white/50">{tourSettings.dwellMs / 1000}</span>
+          </div>
+          <input
+            type="range"
+            min={TOUR_DWELL_RANGE.min}
+            max={TOUR_DWELL_RANGE.max}
+            step={TOUR_DWELL_RANGE.step}
+            value={tourSettings.dwellMs}
+            onChange={(e) => onTourSettingsChange({ dwellMs: Number(e.target.value) })}
+            className="w-full h-1 accent-yellow-500"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <select
+            value={tourSettings.order}
+            onChange={(e) => onTourSettingsChange({ order: e.target.value as TourSettings['order'] })}
+            title="Tour order"
+            className="flex-1 bg-white/5 rounded px-1 py-0.5 outline-none"
+          >
+            {TOUR_ORDERS.map(({ value, label }) => <option key={value} value={value} className="bg-black">{label}</option>)}
+          </select>
+          <select
+            value={tourSettings.transition}
+            onChange={(e) => onTourSettingsChange({ transition: e.target.value as TourSettings['transition'] })}
+            title="Tour transition"
+            className="flex-1 bg-white/5 rounded px-1 py-0.5 outline-none"
+          >
+            {TOUR_TRANSITIONS.map(({ value, label }) => <option key={value} value={value} className="bg-black">{label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 mt-4 pt-3 border-t border-white/10 text-[11px]">
+        <span className="flex items-center gap-1.5">
+          <Gauge size={12} />
+          Quality
+        </span>
+        <select
+          value={qualityPreferences.mode}
+          onChange={(e) => onQualityPreferencesChange({ mode: e.target.value })}
+          title="Rendering quality"
+          className="flex-1 bg-white/5 rounded px-1 py-0.5 outline-none"
+        >
+          <option value="auto" className="bg-black">Auto ({qualityTier.label})</option>
+          {QUALITY_TIERS.map(({ id, label }) => <option key={id} value={id} className="bg-black">{label}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-[10px] uppercase tracking-widest cursor-pointer">
+          <input
+            type="checkbox"
+            checked={qualityPreferences.showStats}
+            onChange={(e) => onQualityPreferencesChange({ showStats: e.target.checked })}
+            className="accent-yellow-500"
+          />
+          Stats
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between mt-3 pt-3 border-t border-white/10 text-[11px]">
+        <span className="flex items-center gap-1.5">
+          <Hand size={12} />
+          Hand calibration: <span className={hasCalibration ? 'text-yellow-200' : 'text-white/50'}>{hasCalibration ? 'Personal' : 'Default'}</span>
+        </span>
+        <div className="flex items-center gap-3 text-[10px] uppercase tracking-widest">
+          {hasCalibration && (
+            <button onClick={onClearCalibration} className="hover:text-yellow-400 transition">
+              Clear
+            </button>
+          )}
+          <button onClick={onStartCalibration} className="text-yellow-300 hover:text-yellow-100 transition">
+            Calibrate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
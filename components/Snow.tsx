@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { damp } from 'maath/easing';
+import { AppState } from '../types';
+import { createRandom } from '../utils/random';
+
+// Falling snow drawn as one Points object. Flakes never leave the GPU: the vertex shader derives each
+// flake's position from its spawn point and time, wrapping it inside the snow volume. The CPU only
+// integrates wind drift and swirl so changing those settings never makes the flakes jump.
+
+interface SnowProps {
+  appState: AppState;
+  count: number;
+  flakeSize: number; // World units, before per-flake variance
+  wind: number;      // Sideways drift in world units per second (negative blows left)
+  handPositionRef: React.MutableRefObject<{ x: number; y: number }>;
+}
+
+// Half extents of the volume the flakes wrap around in, centred between the tree and the camera
+const SNOW_VOLUME = new THREE.Vector3(18, 12, 10);
+const SNOW_CENTER_Z = 2;
+const FALL_SPEED = 1.1;
+
+// Hand position (-1..1) to the world point the flakes swirl around in SCATTER
+const SWIRL_REACH = { x: 10, y: 6 };
+
+// Calm in TREE, swirling in SCATTER, dimmed behind the focused photo
+const SNOW_MOOD: Record<AppState, { swirl: number; opacity: number }> = {
+  [AppState.TREE]: { swirl: 0, opacity: 0.85 },
+  [AppState.SCATTER]: { swirl: 1, opacity: 0.85 },
+  [AppState.FOCUS]: { swirl: 0, opacity: 0.2 },
+};
+
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uDrift;
+  uniform float uSwirlPhase;
+  uniform vec3 uSwirlCenter;
+  uniform vec3 uVolume;
+  uniform float uSize;
+  uniform float uViewportHeight;
+  attribute float aSize;
+  attribute float aPhase;
+  varying float vDepthFade;
+
+  void main() {
+    vec3 p = position;
+    // Fall (bigger flakes a little faster), drift with the wind and flutter, wrapping inside the volume
+    p.y = mod(p.y - uTime * ${FALL_SPEED.toFixed(2)} * (0.6 + 0.4 * aSize) + uVolume.y, 2.0 * uVolume.y) - uVolume.y;
+    p.x = mod(p.x + uDrift + sin(uTime * 0.8 + aPhase) * 0.4 + uVolume.x, 2.0 * uVolume.x) - uVolume.x;
+    p.z += cos(uTime * 0.6 + aPhase * 1.3) * 0.3;
+
+    // Swirl around the hand: rotate about the view axis, strongest close to the centre
+    vec2 offset = p.xy - uSwirlCenter.xy;
+    float angle = uSwirlPhase / (1.0 + dot(offset, offset) * 0.04);
+    float s = sin(angle);
+    float c = cos(angle);
+    p.xy = uSwirlCenter.xy + vec2(offset.x * c - offset.y * s, offset.x * s + offset.y * c);
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = uSize * aSize * projectionMatrix[1][1] * uViewportHeight * 0.5 / -mvPosition.z;
+    // Fade flakes right in front of the lens so they don't flash past as big blobs
+    vDepthFade = smoothstep(0.5, 3.0, -mvPosition.z);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  varying float vDepthFade;
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5);
+    float alpha = smoothstep(0.5, 0.1, d) * uOpacity * vDepthFade;
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(vec3(1.0), alpha);
+  }
+`;
+
+export const Snow: React.FC<SnowProps> = ({ appState, count, flakeSize, wind, handPositionRef }) => {
+  const geometry = useMemo(() => {
+    const random = createRandom(count);
+    const positions = new Float32Array(count * 3);
+    const sizes = new Float32Array(count);
+    const phases = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      positions[i * 3] = (random() * 2 - 1) * SNOW_VOLUME.x;
+      positions[i * 3 + 1] = (random() * 2 - 1) * SNOW_VOLUME.y;
+      positions[i * 3 + 2] = SNOW_CENTER_Z + (random() * 2 - 1) * SNOW_VOLUME.z;
+      sizes[i] = 0.5 + random() * random() * 1.5; // Mostly small flakes, a few big ones
+      phases[i] = random() * Math.PI * 2;
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('aSize', new THREE.BufferAttribute(sizes, 1));
+    geometry.setAttribute('aPhase', new THREE.BufferAttribute(phases, 1));
+    return geometry;
+  }, [count]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      uTime: { value: 0 },
+      uDrift: { value: 0 },
+      uSwirlPhase: { value: 0 },
+      uSwirlCenter: { value: new THREE.Vector3() },
+      uVolume: { value: SNOW_VOLUME },
+      uSize: { value: 0 },
+      uViewportHeight: { value: 1 },
+      uOpacity: { value: 0 },
+    },
+    transparent: true,
+    depthWrite: false,
+  }), []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Eased mood values, so switching state blends rather than snaps
+  const mood = useMemo(() => ({ swirl: 0, opacity: 0 }), []);
+
+  useFrame((state, delta) => {
+    const { uniforms } = material;
+    const target = SNOW_MOOD[appState];
+    damp(mood, 'swirl', target.swirl, 0.6, delta);
+    damp(mood, 'opacity', target.opacity, 0.5, delta);
+
+    uniforms.uTime.value += delta;
+    uniforms.uDrift.value = (uniforms.uDrift.value + wind * delta) % (SNOW_VOLUME.x * 2);
+    uniforms.uSwirlPhase.value += mood.swirl * delta * 1.4;
+    // Unwind slowly once calm again, so the flakes settle back to straight falling
+    if (mood.swirl < 0.05) uniforms.uSwirlPhase.value *= Math.exp(-0.5 * delta);
+    const hand = handPositionRef.current;
+    damp(uniforms.uSwirlCenter.value, 'x', hand.x * SWIRL_REACH.x, 0.3, delta);
+    damp(uniforms.uSwirlCenter.value, 'y', hand.y * SWIRL_REACH.y, 0.3, delta);
+    uniforms.uSize.value = flakeSize;
+    uniforms.uViewportHeight.value = state.size.height * state.viewport.dpr;
+    uniforms.uOpacity.value = mood.opacity;
+  });
+
+  if (count === 0) return null;
+
+  // Flakes wrap around inside the volume, so the geometry's bounds never describe them; skip culling
+  return <points geometry={geometry} material={material} frustumCulled={false} />;
+};
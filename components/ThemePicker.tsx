@@ -0,0 +1,49 @@
+import React from 'react';
+import { Download, FileUp, Palette } from 'lucide-react';
+import { Theme } from '../types';
+
+interface ThemePickerProps {
+  themes: Theme[];
+  selectedThemeId: string;
+  onSelectTheme: (id: string) => void;
+  onImportTheme: (file: File) => void;
+  onExportTheme: () => void;
+}
+
+// Swatch per theme (background ring, metal fill) plus import / export of theme files
+export const ThemePicker: React.FC<ThemePickerProps> = ({
+  themes,
+  selectedThemeId,
+  onSelectTheme,
+  onImportTheme,
+  onExportTheme,
+}) => {
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (file) onImportTheme(file);
+  };
+
+  return (
+    <div className="flex items-center gap-3 bg-black/40 backdrop-blur-md px-4 py-2 rounded-full border border-white/10">
+      <Palette size={14} className="text-white/50" />
+      {themes.map((theme) => (
+        <button
+          key={theme.id}
+          onClick={() => onSelectTheme(theme.id)}
+          title={theme.name}
+          className={`w-5 h-5 rounded-full border-4 transition hover:scale-110 ${theme.id === selectedThemeId ? 'ring-2 ring-white/80' : 'opacity-70'}`}
+          style={{ backgroundColor: theme.metal, borderColor: theme.background }}
+        />
+      ))}
+      <div className="w-px h-4 bg-white/10" />
+      <label title="Import theme" className="text-white/50 hover:text-yellow-400 transition cursor-pointer">
+        <FileUp size={14} />
+        <input type="file" onChange={handleFileInput} className="hidden" accept="application/json,.json" />
+      </label>
+      <button onClick={onExportTheme} title="Export theme" className="text-white/50 hover:text-yellow-400 transition">
+        <Download size={14} />
+      </button>
+    </div>
+  );
+};
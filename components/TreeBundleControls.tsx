@@ -0,0 +1,38 @@
+import React from 'react';
+import { Loader2, PackageOpen, Share2 } from 'lucide-react';
+
+interface TreeBundleControlsProps {
+  task: 'exporting' | 'importing' | null;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+// Export the whole tree (photos, details, theme, settings, layout) to one file, or load one
+export const TreeBundleControls: React.FC<TreeBundleControlsProps> = ({ task, onExport, onImport }) => {
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (file) onImport(file);
+  };
+
+  const busy = task !== null;
+  const iconClass = `transition ${busy ? 'text-white/20 cursor-wait' : 'text-white/50 hover:text-yellow-400'}`;
+
+  return (
+    <div className="flex items-center gap-3 bg-black/40 backdrop-blur-md px-4 py-3 rounded-full border border-white/10">
+      {busy && (
+        <span className="flex items-center gap-1.5 text-[10px] text-yellow-400 tracking-widest uppercase">
+          <Loader2 size={14} className="animate-spin" />
+          {task === 'exporting' ? 'Packing' : 'Loading'}
+        </span>
+      )}
+      <button onClick={onExport} disabled={busy} title="Export tree (photos, captions, theme and layout)" className={iconClass}>
+        <Share2 size={14} />
+      </button>
+      <label title="Import tree" className={`${iconClass} ${busy ? '' : 'cursor-pointer'}`}>
+        <PackageOpen size={14} />
+        <input type="file" onChange={handleFileInput} disabled={busy} className="hidden" accept="application/json,.json" />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { damp3 } from 'maath/easing';
+import { AppState, TreeDimensions } from '../types';
+import { createItemRandom, createRandom } from '../utils/random';
+import { LightBulb, lightPattern, LightSample, LightSettings } from '../utils/lightPatterns';
+import { BeatClock, clockTempo } from '../utils/beatSync';
+
+// String lights: small unlit bulbs whose colours the pattern engine (utils/lightPatterns.ts) drives every
+// frame. Colours go above 1 at full brightness so bloom picks the bulbs up.
+
+export interface PlacedBulb extends LightBulb {
+  position: [number, number, number];
+  color: string;
+}
+
+// Classic multicolour string, and the warm white one wound along the garland
+export const MULTICOLOR_BULBS = ['#ff3b30', '#ffd60a', '#34c759', '#0a84ff', '#ff9f0a'];
+export const WARM_WHITE_BULBS = ['#ffe2a8'];
+
+// Brightness range in colour units: dim bulbs stay faintly visible, lit ones bloom
+const BULB_DIM = 0.25;
+const BULB_GLOW = 3;
+
+const TREE_BULB_COUNT = 90;
+
+// Evenly spaced along a curve, e.g. the garland; offsets follow the curve from start to end
+export function placeBulbsAlong(curve: THREE.Curve<THREE.Vector3>, count: number, colors: string[]): PlacedBulb[] {
+  const random = createRandom(count);
+  return curve.getSpacedPoints(count - 1).map((point, i) => ({
+    position: [point.x, point.y, point.z],
+    offset: i / Math.max(1, count - 1),
+    phase: random(),
+    color: colors[i % colors.length],
+  }));
+}
+
+// One instanced mesh per string; bulbs don't move relative to their parent
+export const LightString: React.FC<{
+  bulbs: PlacedBulb[];
+  settings: LightSettings;
+  beatClock: BeatClock;
+  size: number;
+}> = ({
+  bulbs,
+  settings,
+  beatClock,
+  size,
+}) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const count = bulbs.length;
+
+  const baseColors = useMemo(() => {
+    const color = new THREE.Color();
+    const colors = new Float32Array(count * 3);
+    bulbs.forEach((bulb, i) => color.set(bulb.color).toArray(colors, i * 3));
+    return colors;
+  }, [bulbs, count]);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    const color = new THREE.Color();
+    bulbs.forEach((bulb, i) => {
+      mesh.setMatrixAt(i, matrix.makeTranslation(...bulb.position));
+      mesh.setColorAt(i, color.fromArray(baseColors, i * 3));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [bulbs, baseColors]);
+
+  // Scratch values, reused for every bulb every frame
+  const scratch = useMemo(() => ({ sample: { brightness: 0, hue: null } as LightSample, color: new THREE.Color() }), []);
+
+  useFrame(({ clock }) => {
+    const mesh = meshRef.current;
+    if (!mesh?.instanceColor) return;
+    const pattern = lightPattern(settings.pattern);
+    let params = settings.params[pattern.id];
+    let time = clock.elapsedTime;
+    // Tempo-following patterns count from the last tapped or heard beat, at its exact tempo
+    if (pattern.tempoParam && beatClock.anchor !== null) {
+      time = performance.now() / 1000 - beatClock.anchor;
+      params = { ...params, [pattern.tempoParam]: clockTempo(beatClock, params[pattern.tempoParam]) };
+    }
+    const colors = mesh.instanceColor.array as Float32Array;
+    const { sample, color } = scratch;
+
+    for (let i = 0; i < count; i++) {
+      pattern.sample(bulbs[i], time, params, sample);
+      if (sample.hue === null) color.fromArray(baseColors, i * 3);
+      else color.setHSL(sample.hue, 1, 0.5);
+      color.multiplyScalar(BULB_DIM + sample.brightness * (BULB_GLOW - BULB_DIM));
+      color.toArray(colors, i * 3);
+    }
+    mesh.instanceColor.needsUpdate = true;
+  });
+
+  if (count === 0) return null;
+
+  return (
+    <instancedMesh key={count} ref={meshRef} args={[undefined, undefined, count]}>
+      <sphereGeometry args={[size, 8, 8]} />
+      <meshBasicMaterial toneMapped={false} />
+    </instancedMesh>
+  );
+};
+
+// Bulbs tucked among the ornaments on the tree's surface; like the garland they only show in TREE
+export const TreeLights: React.FC<{
+  appState: AppState;
+  tree: TreeDimensions;
+  seed: number;
+  settings: LightSettings;
+  beatClock: BeatClock;
+}> = ({ appState, tree, seed, settings, beatClock }) => {
+  const groupRef = useRef<THREE.Group>(null);
+
+  const bulbs = useMemo(() => {
+    const random = createItemRandom(seed, 'lights');
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    return Array.from({ length: TREE_BULB_COUNT }, (_, i): PlacedBulb => {
+      // Bottom to top, so chases and fades run up the tree
+      const offset = (i + random()) / TREE_BULB_COUNT;
+      const radius = (tree.radiusBottom * Math.pow(1 - offset, 0.9) + 0.2) * (1 + random() * 0.1);
+      const theta = i * goldenAngle + random() * 0.5;
+      return {
+        position: [Math.cos(theta) * radius, tree.height * (offset - 0.5), Math.sin(theta) * radius],
+        offset,
+        phase: random(),
+        color: MULTICOLOR_BULBS[i % MULTICOLOR_BULBS.length],
+      };
+    });
+  }, [seed, tree.height, tree.radiusBottom]);
+
+  useFrame((_, delta) => {
+    if (!groupRef.current) return;
+    const targetScale = appState === AppState.TREE ? 1 : 0;
+    damp3(groupRef.current.scale, [targetScale, targetScale, targetScale], 0.5, delta);
+  });
+
+  return (
+    <group ref={groupRef}>
+      <LightString bulbs={bulbs} settings={settings} beatClock={beatClock} size={0.07} />
+    </group>
+  );
+};
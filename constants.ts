@@ -8,7 +8,15 @@ export const COLORS = {
 
 export const CONFIG = {
   PARTICLE_COUNT: 1200,
-  TREE_HEIGHT: 12,
-  TREE_RADIUS_BOTTOM: 4.5, // Slightly wider base
   SCATTER_RADIUS: 15,
+  GARLAND_LOOPS: 5.5,
+  TREE_ROTATION_SPEED: 0.15, // Radians per second while in tree mode
+  GARLAND_ROTATION_SPEED: 0.05,
+  ORNAMENT_SPIN_SPEED: 0.5,
+  SNOW_FLAKE_COUNT: 2000,
+  SNOW_FLAKE_SIZE: 0.12, // World units
+  SNOW_WIND: 0.4, // Sideways drift, world units per second
+  MAX_TEXTURE_SIZE: 2048, // Uploaded photos are downsized to this longest edge
+  THUMBNAIL_SIZE: 256,
+  BUNDLE_IMAGE_SIZE: 1600, // Photos in exported tree bundles are downsized to this longest edge
 };
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Downloads the MediaPipe hand landmarker model into public/models, where the app loads it from.
+// Runs after `npm install`; skipped when the file is already there. Without --required a failed download
+// only warns, so installing offline still works (hand tracking then reports the missing model).
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const MODEL_FILE = fileURLToPath(new URL('../public/models/hand_landmarker.task', import.meta.url));
+
+const required = process.argv.includes('--required');
+
+async function main() {
+  if (fs.existsSync(MODEL_FILE)) return;
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  const model = Buffer.from(await response.arrayBuffer());
+  fs.mkdirSync(path.dirname(MODEL_FILE), { recursive: true });
+  // Write then rename, so an interrupted download never leaves a truncated model behind
+  fs.writeFileSync(`${MODEL_FILE}.part`, model);
+  fs.renameSync(`${MODEL_FILE}.part`, MODEL_FILE);
+  console.log(`Downloaded the hand tracking model to ${path.relative(process.cwd(), MODEL_FILE)}`);
+}
+
+main().catch((error) => {
+  console.warn(`Could not download the hand tracking model from ${MODEL_URL}: ${error.message}`);
+  if (required) process.exit(1);
+});
@@ -0,0 +1,87 @@
+import { BeatClock, BeatSyncError, createBeatDetector } from '../utils/beatSync';
+
+// Listens for the beat on the microphone: the bass spectrum goes through the beat detector every animation
+// frame, which keeps the shared beat clock on the music. Start it from a click, as browsers only run audio
+// after a user gesture.
+
+export interface BeatListener {
+  stop: () => void;
+}
+
+const FFT_SIZE = 2048;
+
+// Resolves once listening; `onTempo` gets the heard tempo, rounded, whenever it changes.
+// Throws a BeatSyncError when there is no microphone or it can't be used.
+export async function startBeatListener(clock: BeatClock, onTempo: (bpm: number) => void): Promise<BeatListener> {
+  if (!navigator.mediaDevices?.getUserMedia || typeof AudioContext === 'undefined') {
+    throw new BeatSyncError('unsupported', 'Listening for the beat is not available in this browser.');
+  }
+  let stream: MediaStream;
+  try {
+    // Untouched audio: echo cancellation and noise suppression treat music as noise
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+  } catch (error) {
+    throw toMicrophoneError(error);
+  }
+
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0; // The detector looks for sudden rises, which smoothing would blur
+  context.createMediaStreamSource(stream).connect(analyser);
+
+  let frameId = 0;
+  const stop = () => {
+    cancelAnimationFrame(frameId);
+    stream.getTracks().forEach((track) => track.stop());
+    context.close().catch(() => {});
+  };
+
+  try {
+    await context.resume();
+  } catch (error) {
+    stop();
+    throw new BeatSyncError('failed', `The microphone could not be started (${errorMessage(error)}).`);
+  }
+
+  const detector = createBeatDetector();
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  let tempo: number | null = null;
+  const listen = () => {
+    analyser.getByteFrequencyData(spectrum);
+    detector.process(spectrum, performance.now() / 1000, clock);
+    const heard = clock.bpm === null ? null : Math.round(clock.bpm);
+    if (heard !== null && heard !== tempo) {
+      tempo = heard;
+      onTempo(heard);
+    }
+    frameId = requestAnimationFrame(listen);
+  };
+  frameId = requestAnimationFrame(listen);
+
+  return { stop };
+}
+
+// getUserMedia rejects with DOMExceptions; map the common ones to something the user can act on
+function toMicrophoneError(error: unknown): BeatSyncError {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new BeatSyncError('permission-denied', 'Microphone access was denied. Allow it in the browser\'s site settings, then retry.');
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new BeatSyncError('no-device', 'No microphone was found. Connect one, then retry.');
+    case 'NotReadableError':
+    case 'AbortError':
+      return new BeatSyncError('failed', 'The microphone is in use by another application.');
+    default:
+      return new BeatSyncError('failed', `The microphone could not be started (${errorMessage(error)}).`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
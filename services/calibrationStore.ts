@@ -0,0 +1,24 @@
+import { CalibrationProfile, parseCalibrationProfile } from '../utils/calibration';
+
+// Remembers the user's hand calibration in localStorage so it applies on the next visit
+
+const STORAGE_KEY = 'noel-magic:calibration';
+
+export function loadCalibration(): CalibrationProfile | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseCalibrationProfile(raw) : null;
+  } catch (error) {
+    console.warn('Could not read hand calibration', error);
+    return null;
+  }
+}
+
+export function saveCalibration(profile: CalibrationProfile | null) {
+  try {
+    if (profile) localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not save hand calibration', error);
+  }
+}
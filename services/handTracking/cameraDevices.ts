@@ -0,0 +1,14 @@
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Video inputs the browser reports. Labels are only filled in once camera permission was granted,
+// so unnamed devices get a numbered fallback.
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+}
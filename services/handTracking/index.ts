@@ -0,0 +1,29 @@
+import { createMediaPipeProvider } from './mediaPipeProvider';
+import { HandTrackingProvider, HandTrackingProviderKind } from './types';
+
+export type {
+  HandTrackingFailure,
+  HandTrackingProvider,
+  HandTrackingProviderKind,
+  HandTrackingStartOptions,
+  HandTrackingStatus,
+} from './types';
+export { HandTrackingError } from './types';
+export { listCameras } from './cameraDevices';
+export type { CameraDevice } from './cameraDevices';
+export { createMediaPipeProvider } from './mediaPipeProvider';
+export { createReplayProvider } from './replayProvider';
+export type { ReplayMode, ReplayProvider } from './replayProvider';
+export { createLandmarkRecorder, downloadLandmarkRecording } from './landmarkRecorder';
+export type { LandmarkRecorder } from './landmarkRecorder';
+
+// Providers that track a live camera; mouse, touch and keyboard input go through InputManager instead
+export type LiveHandTrackingProviderKind = Exclude<HandTrackingProviderKind, 'replay'>;
+
+// Live providers only; replays are created from a recording with createReplayProvider
+export function createHandTrackingProvider(kind: LiveHandTrackingProviderKind): HandTrackingProvider {
+  switch (kind) {
+    case 'mediapipe':
+    default: return createMediaPipeProvider();
+  }
+}
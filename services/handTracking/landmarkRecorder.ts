@@ -0,0 +1,52 @@
+import { HandTrackingResult } from '../../types';
+import { LANDMARK_RECORDING_VERSION, LandmarkRecording, RecordedFrame } from '../../utils/landmarkRecording';
+
+export interface LandmarkRecorder {
+  start: () => void;
+  stop: () => LandmarkRecording;
+  record: (results: HandTrackingResult) => void;
+  readonly isRecording: boolean;
+}
+
+// Captures the provider output with timestamps relative to the first recorded frame
+export function createLandmarkRecorder(): LandmarkRecorder {
+  let frames: RecordedFrame[] = [];
+  let startTimestamp: number | null = null;
+  let recording = false;
+  let createdAt = new Date();
+
+  return {
+    start() {
+      frames = [];
+      startTimestamp = null;
+      createdAt = new Date();
+      recording = true;
+    },
+    stop() {
+      recording = false;
+      return { version: LANDMARK_RECORDING_VERSION, createdAt: createdAt.toISOString(), frames };
+    },
+    record(results) {
+      if (!recording) return;
+      if (startTimestamp === null) startTimestamp = results.timestamp;
+      frames.push({
+        t: results.timestamp - startTimestamp,
+        multiHandLandmarks: results.multiHandLandmarks,
+        multiHandedness: results.multiHandedness,
+      });
+    },
+    get isRecording() {
+      return recording;
+    },
+  };
+}
+
+export function downloadLandmarkRecording(recording: LandmarkRecording) {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `gesture-recording-${recording.createdAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
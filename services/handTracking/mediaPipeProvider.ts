@@ -0,0 +1,167 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { Handedness, HandTrackingResult } from '../../types';
+import { HandTrackingError, HandTrackingProvider, HandTrackingStartOptions } from './types';
+
+// Served locally rather than from a CDN: the wasm runtime is copied out of node_modules
+// by vite.config.ts, the model is downloaded into public/models by `npm install` (see README)
+const WASM_PATH = './mediapipe/wasm';
+const MODEL_PATH = './models/hand_landmarker.task';
+
+export interface MediaPipeProviderOptions {
+  numHands: number;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+  maxInferenceRate: number; // Model runs per second at most
+}
+
+const DEFAULT_OPTIONS: MediaPipeProviderOptions = {
+  numHands: 2,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+  maxInferenceRate: 30,
+};
+
+export function createMediaPipeProvider(overrides: Partial<MediaPipeProviderOptions> = {}): HandTrackingProvider {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  let landmarker: HandLandmarker | null = null;
+  let stream: MediaStream | null = null;
+  let frameId: number | null = null;
+  let stopped = false;
+  let minInferenceInterval = inferenceInterval(options.maxInferenceRate);
+
+  const stop = () => {
+    stopped = true;
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+    stream?.getTracks().forEach((track) => track.stop());
+    stream = null;
+    landmarker?.close();
+    landmarker = null;
+  };
+
+  const start = async ({ video, onResults, onStatus, deviceId }: HandTrackingStartOptions) => {
+    stopped = false;
+
+    // Ask for the camera first so the permission prompt shows up right away
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new HandTrackingError('no-device', 'Camera access is not available in this browser.');
+    }
+    onStatus?.('requesting-permission');
+    let media: MediaStream;
+    try {
+      media = await navigator.mediaDevices.getUserMedia({
+        video: { width: 640, height: 480, ...(deviceId ? { deviceId: { exact: deviceId } } : {}) },
+      });
+    } catch (error) {
+      throw toCameraError(error);
+    }
+    if (stopped) {
+      media.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    stream = media;
+
+    onStatus?.('loading-model');
+    let created: HandLandmarker;
+    try {
+      const [vision, model] = await Promise.all([FilesetResolver.forVisionTasks(WASM_PATH), loadModel()]);
+      created = await HandLandmarker.createFromOptions(vision, {
+        baseOptions: { modelAssetBuffer: model, delegate: 'GPU' },
+        runningMode: 'VIDEO',
+        numHands: options.numHands,
+        minHandDetectionConfidence: options.minDetectionConfidence,
+        minTrackingConfidence: options.minTrackingConfidence,
+      });
+    } catch (error) {
+      throw error instanceof HandTrackingError
+        ? error
+        : new HandTrackingError('failed', `The hand tracking model could not be loaded (${errorMessage(error)}).`);
+    }
+    if (stopped) {
+      created.close();
+      return;
+    }
+    landmarker = created;
+
+    video.srcObject = media;
+    await video.play();
+    onStatus?.('running');
+
+    let lastVideoTime = -1;
+    let lastInferenceAt = -Infinity;
+    const loop = () => {
+      if (stopped || !landmarker) return;
+      // Only run inference when the camera has produced a new frame, and no more often than allowed
+      const timestamp = performance.now();
+      if (video.currentTime !== lastVideoTime && timestamp - lastInferenceAt >= minInferenceInterval) {
+        lastVideoTime = video.currentTime;
+        lastInferenceAt = timestamp;
+        const result = landmarker.detectForVideo(video, timestamp);
+        const frame: HandTrackingResult = {
+          multiHandLandmarks: result.landmarks.map((hand) => hand.map(({ x, y, z }) => ({ x, y, z }))),
+          multiHandedness: result.handedness.map(toHandedness),
+          timestamp,
+          inferenceMs: performance.now() - timestamp,
+        };
+        onResults(frame);
+      }
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+  };
+
+  const setMaxInferenceRate = (fps: number) => {
+    minInferenceInterval = inferenceInterval(fps);
+  };
+
+  return { kind: 'mediapipe', usesCamera: true, start, stop, setMaxInferenceRate };
+}
+
+// Fetched here rather than by MediaPipe so a missing file gets a message that says how to fix it.
+// The dev server answers unknown paths with index.html, hence the content type check.
+async function loadModel(): Promise<Uint8Array> {
+  const response = await fetch(MODEL_PATH).catch(() => null);
+  if (!response?.ok || response.headers.get('Content-Type')?.includes('text/html')) {
+    throw new HandTrackingError(
+      'failed',
+      'The hand tracking model (models/hand_landmarker.task) is missing. Run `npm run fetch-model`, then retry.'
+    );
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Minimum ms between model runs, with a little slack so a rate matching the camera's doesn't skip
+// every other frame on timer jitter
+function inferenceInterval(fps: number): number {
+  return (1000 / fps) * 0.9;
+}
+
+function toHandedness(categories: { categoryName: string; score: number }[]): Handedness {
+  const best = categories[0];
+  return {
+    label: best?.categoryName === 'Left' ? 'Left' : 'Right',
+    score: best?.score ?? 0,
+  };
+}
+
+// getUserMedia rejects with DOMExceptions; map the common ones to something the user can act on
+function toCameraError(error: unknown): HandTrackingError {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new HandTrackingError('permission-denied', 'Camera access was denied. Allow it in the browser\'s site settings, then retry.');
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new HandTrackingError('no-device', 'No camera was found. Connect one, then retry.');
+    case 'NotReadableError':
+    case 'AbortError':
+      return new HandTrackingError('failed', 'The camera is in use by another application.');
+    default:
+      return new HandTrackingError('failed', `The camera could not be started (${errorMessage(error)}).`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,53 @@
+import { LandmarkRecording, toHandTrackingResult } from '../../utils/landmarkRecording';
+import { HandTrackingProvider, HandTrackingStartOptions } from './types';
+
+export type ReplayMode = 'realtime' | 'step';
+
+export interface ReplayProvider extends HandTrackingProvider {
+  // Emits the next frame; only meaningful in 'step' mode. Returns false once the recording is exhausted.
+  step: () => boolean;
+}
+
+// Feeds a recorded session back in place of the camera. Frames keep their recorded
+// timestamps, so the gesture pipeline sees exactly the timing it saw live.
+export function createReplayProvider(
+  recording: LandmarkRecording,
+  mode: ReplayMode = 'realtime'
+): ReplayProvider {
+  let frameId: number | null = null;
+  let emit: HandTrackingStartOptions['onResults'] | null = null;
+  let index = 0;
+
+  const stop = () => {
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+    emit = null;
+  };
+
+  const step = () => {
+    if (!emit || index >= recording.frames.length) return false;
+    emit(toHandTrackingResult(recording.frames[index]));
+    index++;
+    return true;
+  };
+
+  const start = async ({ onResults }: HandTrackingStartOptions) => {
+    emit = onResults;
+    index = 0;
+    if (mode === 'step') return;
+
+    const startTime = performance.now();
+    const tick = () => {
+      const elapsed = performance.now() - startTime;
+      // Emit every frame that is due, so slow displays don't stretch the recording
+      while (index < recording.frames.length && recording.frames[index].t <= elapsed) {
+        step();
+      }
+      if (index >= recording.frames.length) return;
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+  };
+
+  return { kind: 'replay', usesCamera: false, start, stop, step };
+}
@@ -0,0 +1,35 @@
+import { HandTrackingResult } from '../../types';
+
+export type HandTrackingProviderKind = 'mediapipe' | 'replay';
+
+// Progress while a provider starts up; providers without a camera or model skip straight to 'running'
+export type HandTrackingStatus = 'requesting-permission' | 'loading-model' | 'running';
+
+export type HandTrackingFailure = 'permission-denied' | 'no-device' | 'failed';
+
+// Rejection reason of HandTrackingProvider.start, with a message that can be shown to the user
+export class HandTrackingError extends Error {
+  constructor(public reason: HandTrackingFailure, message: string) {
+    super(message);
+    this.name = 'HandTrackingError';
+  }
+}
+
+export interface HandTrackingStartOptions {
+  video: HTMLVideoElement;
+  onResults: (results: HandTrackingResult) => void;
+  onStatus?: (status: HandTrackingStatus) => void;
+  deviceId?: string; // Camera to use; the browser's default when omitted
+}
+
+// A source of hand landmarks. HandManager only talks to this interface, never to a concrete backend.
+export interface HandTrackingProvider {
+  readonly kind: HandTrackingProviderKind;
+  // Whether the provider renders the webcam into the supplied <video> element
+  readonly usesCamera: boolean;
+  // Rejects if the provider cannot run here (no camera, model failed to load, ...)
+  start: (options: HandTrackingStartOptions) => Promise<void>;
+  stop: () => void;
+  // Caps how often the model runs (camera frames in between are skipped); providers without a model ignore it
+  setMaxInferenceRate?: (fps: number) => void;
+}
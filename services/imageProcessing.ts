@@ -0,0 +1,91 @@
+// Client-side preparation of uploaded photos: honours EXIF orientation, downsizes to a texture-friendly
+// size and renders a thumbnail, so full-resolution phone photos never reach the GPU.
+
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+export type ImageProcessingFailure = 'unsupported-type' | 'decode-failed';
+
+export class ImageProcessingError extends Error {
+  constructor(public reason: ImageProcessingFailure, message: string) {
+    super(message);
+    this.name = 'ImageProcessingError';
+  }
+}
+
+export interface ProcessImageOptions {
+  maxSize: number;       // Longest edge of the stored image, in pixels
+  thumbnailSize: number; // Longest edge of the thumbnail
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  thumbnail: Blob;
+  width: number;  // Upright (EXIF orientation applied) size of `blob`
+  height: number;
+}
+
+export async function processImage(file: File, options: ProcessImageOptions): Promise<ProcessedImage> {
+  if (!SUPPORTED_TYPES.includes(file.type)) {
+    throw new ImageProcessingError('unsupported-type', `${file.name}: ${file.type || 'unknown'} files are not supported`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    // The browser applies the EXIF orientation while decoding, so the bitmap is already upright
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageProcessingError('decode-failed', `${file.name}: the image could not be decoded`);
+  }
+
+  try {
+    // JPEG has no alpha channel, so images with see-through pixels keep a format that does
+    const outputType = hasTransparency(bitmap)
+      ? (file.type === 'image/webp' ? 'image/webp' : 'image/png')
+      : (file.type === 'image/png' ? 'image/png' : 'image/jpeg');
+    const full = await renderScaled(bitmap, options.maxSize, outputType);
+    const thumbnail = await renderScaled(bitmap, options.thumbnailSize, outputType);
+    return { blob: full.blob, thumbnail: thumbnail.blob, width: full.width, height: full.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Whether any pixel is less than fully opaque, checked on a small copy (fine for logos and cut-outs)
+const TRANSPARENCY_CHECK_SIZE = 256;
+
+function hasTransparency(bitmap: ImageBitmap): boolean {
+  const scale = Math.min(1, TRANSPARENCY_CHECK_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return false;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+// Draws the bitmap scaled so its longest edge is at most `maxSize`
+async function renderScaled(
+  bitmap: ImageBitmap,
+  maxSize: number,
+  type: string
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImageProcessingError('decode-failed', 'Canvas 2D context is not available');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.9));
+  if (!blob) throw new ImageProcessingError('decode-failed', 'The image could not be re-encoded');
+  return { blob, width, height };
+}
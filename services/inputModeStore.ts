@@ -0,0 +1,25 @@
+import { InputMode } from '../types';
+
+// Remembers the chosen input mode in localStorage; without a choice, phones and camera-less browsers start with pointer input
+
+const STORAGE_KEY = 'noel-magic:input-mode';
+
+export function loadInputMode(): InputMode {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === 'hands' || stored === 'pointer') return stored;
+  } catch (error) {
+    console.warn('Could not read input mode', error);
+  }
+  const hasCamera = typeof navigator.mediaDevices?.getUserMedia === 'function';
+  const isTouchDevice = window.matchMedia?.('(pointer: coarse)').matches ?? false;
+  return hasCamera && !isTouchDevice ? 'hands' : 'pointer';
+}
+
+export function saveInputMode(mode: InputMode) {
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch (error) {
+    console.warn('Could not save input mode', error);
+  }
+}
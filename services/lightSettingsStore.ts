@@ -0,0 +1,23 @@
+import { DEFAULT_LIGHT_SETTINGS, LightSettings, sanitizeLightSettings } from '../utils/lightPatterns';
+
+// Remembers the string-light pattern and its tuning in localStorage
+
+const STORAGE_KEY = 'noel-magic:light-settings';
+
+export function loadLightSettings(): LightSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizeLightSettings(JSON.parse(raw)) : DEFAULT_LIGHT_SETTINGS;
+  } catch (error) {
+    console.warn('Could not read light settings', error);
+    return DEFAULT_LIGHT_SETTINGS;
+  }
+}
+
+export function saveLightSettings(settings: LightSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save light settings', error);
+  }
+}
@@ -0,0 +1,23 @@
+import { DEFAULT_MORPH_SETTINGS, MorphSettings, sanitizeMorphSettings } from '../utils/morphTargets';
+
+// Remembers the chosen formation and morph transition in localStorage
+
+const STORAGE_KEY = 'noel-magic:morph-settings';
+
+export function loadMorphSettings(): MorphSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizeMorphSettings(JSON.parse(raw)) : DEFAULT_MORPH_SETTINGS;
+  } catch (error) {
+    console.warn('Could not read morph settings', error);
+    return DEFAULT_MORPH_SETTINGS;
+  }
+}
+
+export function saveMorphSettings(settings: MorphSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save morph settings', error);
+  }
+}
@@ -0,0 +1,108 @@
+import { PhotoMeta } from '../types';
+import { CONFIG } from '../constants';
+import { processImage } from './imageProcessing';
+
+// Uploaded photos persisted in IndexedDB so they survive reloads.
+// Each record holds the processed image and its thumbnail alongside the metadata.
+
+const DB_NAME = 'noel-magic';
+// 2: records carry a thumbnail
+const DB_VERSION = 2;
+const STORE_NAME = 'photos';
+
+export interface StoredPhoto extends PhotoMeta {
+  blob: Blob;
+  thumbnail: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('uploadedAt', 'uploadedAt');
+        }
+        if (event.oldVersion >= 1 && event.oldVersion < 2) backfillThumbnails(request.transaction!.objectStore(STORE_NAME));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Version 1 records have no thumbnail; they use the image itself until the photo is uploaded again.
+// Runs inside the upgrade transaction, which can't wait on canvas work to render real thumbnails.
+function backfillThumbnails(store: IDBObjectStore) {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const record = cursor.value as Omit<StoredPhoto, 'thumbnail'> & { thumbnail?: Blob };
+    if (!record.thumbnail) cursor.update({ ...record, thumbnail: record.blob });
+    cursor.continue();
+  };
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Oldest first, so the tree keeps the order photos were added in.
+// Records saved before photos had a date and author get empty ones.
+export async function loadStoredPhotos(): Promise<StoredPhoto[]> {
+  const records = await withStore('readonly', (store) => store.index('uploadedAt').getAll() as IDBRequest<StoredPhoto[]>);
+  return records.map((record) => ({ date: '', author: '', ...record }));
+}
+
+export async function saveStoredPhoto(photo: StoredPhoto): Promise<void> {
+  await withStore('readwrite', (store) => store.put(photo));
+}
+
+export async function updateStoredPhoto(id: string, patch: Partial<Omit<PhotoMeta, 'id'>>): Promise<void> {
+  const existing = await withStore('readonly', (store) => store.get(id) as IDBRequest<StoredPhoto | undefined>);
+  if (!existing) return;
+  await saveStoredPhoto({ ...existing, ...patch, id });
+}
+
+export async function deleteStoredPhoto(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// Processes an uploaded file into a storable record with a fresh stable id and its upright dimensions.
+// Rejects with an ImageProcessingError for unsupported or undecodable files.
+export async function createStoredPhoto(file: File): Promise<StoredPhoto> {
+  const image = await processImage(file, { maxSize: CONFIG.MAX_TEXTURE_SIZE, thumbnailSize: CONFIG.THUMBNAIL_SIZE });
+
+  return {
+    id: crypto.randomUUID(),
+    filename: file.name,
+    width: image.width,
+    height: image.height,
+    uploadedAt: Date.now(),
+    caption: '',
+    date: '',
+    author: '',
+    blob: image.blob,
+    thumbnail: image.thumbnail,
+  };
+}
@@ -0,0 +1,32 @@
+import { DEFAULT_QUALITY_PREFERENCES, QualityPreferences, qualityTierIndex, sanitizeQualityPreferences } from '../utils/quality';
+
+// Remembers the quality mode and stats overlay choice in localStorage, and picks the tier to start from
+
+const STORAGE_KEY = 'noel-magic:quality';
+
+export function loadQualityPreferences(): QualityPreferences {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizeQualityPreferences(JSON.parse(raw)) : DEFAULT_QUALITY_PREFERENCES;
+  } catch (error) {
+    console.warn('Could not read quality preferences', error);
+    return DEFAULT_QUALITY_PREFERENCES;
+  }
+}
+
+export function saveQualityPreferences(preferences: QualityPreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Could not save quality preferences', error);
+  }
+}
+
+// Few cores, little memory or a phone start low; the adaptive controller steps up from there if it can
+export function initialQualityTier(): number {
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const isLowPower = (navigator.hardwareConcurrency ?? 8) <= 4
+    || (memory !== undefined && memory <= 4)
+    || (window.matchMedia?.('(pointer: coarse)').matches ?? false);
+  return qualityTierIndex(isLowPower ? 'low' : 'high');
+}
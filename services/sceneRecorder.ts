@@ -0,0 +1,54 @@
+import {
+  captureFileName,
+  CaptureError,
+  pickRecorderMimeType,
+  RECORDING_BITS_PER_SECOND,
+  RECORDING_FPS,
+} from '../utils/capture';
+
+// Records the canvas to WebM with MediaRecorder, and saves captures as downloads
+
+export interface CanvasRecording {
+  // Stops recording; resolves with the clip once the recorder has flushed its last chunk
+  stop: () => Promise<Blob>;
+}
+
+// Throws a CaptureError when the browser can't record the canvas as WebM
+export function startCanvasRecording(canvas: HTMLCanvasElement): CanvasRecording {
+  const mimeType = typeof MediaRecorder === 'undefined' || typeof canvas.captureStream !== 'function'
+    ? null
+    : pickRecorderMimeType((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new CaptureError('unsupported', 'This browser cannot record WebM video');
+
+  const stream = canvas.captureStream(RECORDING_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: RECORDING_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      if (chunks.length === 0) reject(new CaptureError('encode-failed', 'The recording is empty'));
+      else resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+  });
+  // Chunk every second so a long clip doesn't sit in one buffer until the end
+  recorder.start(1000);
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+    return stopped;
+  };
+
+  return { stop };
+}
+
+export function downloadCapture(capture: Blob, kind: 'snapshot' | 'clip') {
+  const url = URL.createObjectURL(capture);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = captureFileName(kind);
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,24 @@
+import { SceneSettingsOverrides, sanitizeSceneOverrides } from '../utils/sceneSettings';
+
+// Remembers the settings panel's overrides in localStorage
+
+const STORAGE_KEY = 'noel-magic:scene-settings';
+
+export function loadSceneOverrides(): SceneSettingsOverrides {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizeSceneOverrides(JSON.parse(raw)) : {};
+  } catch (error) {
+    console.warn('Could not read scene settings', error);
+    return {};
+  }
+}
+
+export function saveSceneOverrides(overrides: SceneSettingsOverrides) {
+  try {
+    if (Object.keys(overrides).length === 0) localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.warn('Could not save scene settings', error);
+  }
+}
@@ -0,0 +1,20 @@
+// Remembers whether snow is switched on in localStorage (on by default)
+
+const STORAGE_KEY = 'noel-magic:snow';
+
+export function loadSnowEnabled(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== 'off';
+  } catch (error) {
+    console.warn('Could not read snow setting', error);
+    return true;
+  }
+}
+
+export function saveSnowEnabled(enabled: boolean) {
+  try {
+    localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+  } catch (error) {
+    console.warn('Could not save snow setting', error);
+  }
+}
@@ -0,0 +1,58 @@
+import { Theme } from '../types';
+import { BUILT_IN_THEMES } from '../themes';
+import { exportTheme, importTheme } from '../utils/theme';
+import { isRecord } from '../utils/guards';
+
+// Remembers the selected theme and any imported ones in localStorage
+
+const STORAGE_KEY = 'noel-magic:themes';
+
+export interface ThemePreferences {
+  selectedId: string;
+  custom: Theme[];
+}
+
+export function loadThemePreferences(): ThemePreferences {
+  const fallback: ThemePreferences = { selectedId: BUILT_IN_THEMES[0].id, custom: [] };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fallback;
+    const data: unknown = JSON.parse(raw);
+    if (!isRecord(data)) return fallback;
+    const custom: Theme[] = [];
+    // Re-validate each stored theme so one bad entry can't break startup
+    for (const json of Array.isArray(data.custom) ? data.custom : []) {
+      try {
+        if (typeof json !== 'string') throw new Error('Stored theme is not a theme file');
+        custom.push(importTheme(json));
+      } catch (error) {
+        console.warn('Dropping invalid stored theme', error);
+      }
+    }
+    return { selectedId: typeof data.selectedId === 'string' ? data.selectedId : fallback.selectedId, custom };
+  } catch (error) {
+    console.warn('Could not read theme preferences', error);
+    return fallback;
+  }
+}
+
+export function saveThemePreferences(preferences: ThemePreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      selectedId: preferences.selectedId,
+      custom: preferences.custom.map(exportTheme),
+    }));
+  } catch (error) {
+    console.warn('Could not save theme preferences', error);
+  }
+}
+
+export function downloadTheme(theme: Theme) {
+  const blob = new Blob([exportTheme(theme)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${theme.id}.theme.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,23 @@
+import { DEFAULT_TOUR_SETTINGS, sanitizeTourSettings, TourSettings } from '../utils/photoTour';
+
+// Remembers the auto-tour settings in localStorage
+
+const STORAGE_KEY = 'noel-magic:tour-settings';
+
+export function loadTourSettings(): TourSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizeTourSettings(JSON.parse(raw)) : DEFAULT_TOUR_SETTINGS;
+  } catch (error) {
+    console.warn('Could not read tour settings', error);
+    return DEFAULT_TOUR_SETTINGS;
+  }
+}
+
+export function saveTourSettings(settings: TourSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save tour settings', error);
+  }
+}
@@ -0,0 +1,84 @@
+import { Photo, Theme } from '../types';
+import { CONFIG } from '../constants';
+import { processImage } from './imageProcessing';
+import { StoredPhoto } from './photoStore';
+import { SceneSettingsOverrides } from '../utils/sceneSettings';
+import { TourSettings } from '../utils/photoTour';
+import { MorphSettings } from '../utils/morphTargets';
+import { LightSettings } from '../utils/lightPatterns';
+import { exportTreeBundle, importTreeBundle, TreeBundle, TreeBundleError, TreeBundlePhoto } from '../utils/treeBundle';
+
+// Packs the current tree into a downloadable bundle file and unpacks one back into storable photos.
+// Only uploaded photos are included; the placeholders ship with the app.
+
+export interface TreeBundleContents {
+  photos: Photo[];
+  seed: number;
+  theme: Theme;
+  sceneOverrides: SceneSettingsOverrides;
+  tourSettings: TourSettings;
+  morphSettings: MorphSettings;
+  lightSettings: LightSettings;
+}
+
+export async function createTreeBundle(contents: TreeBundleContents): Promise<Blob> {
+  const photos: TreeBundlePhoto[] = [];
+  // One at a time, so a large library doesn't hold every decoded image at once
+  for (const { url, thumbnailUrl: _thumbnailUrl, ...meta } of contents.photos) {
+    if (!url.startsWith('blob:')) continue;
+    const blob = await (await fetch(url)).blob();
+    const file = new File([blob], meta.filename, { type: blob.type });
+    const image = await processImage(file, { maxSize: CONFIG.BUNDLE_IMAGE_SIZE, thumbnailSize: CONFIG.THUMBNAIL_SIZE });
+    photos.push({ ...meta, width: image.width, height: image.height, image: await toDataUrl(image.blob) });
+  }
+
+  const json = exportTreeBundle({
+    exportedAt: Date.now(),
+    seed: contents.seed,
+    theme: contents.theme,
+    sceneOverrides: contents.sceneOverrides,
+    tourSettings: contents.tourSettings,
+    morphSettings: contents.morphSettings,
+    lightSettings: contents.lightSettings,
+    photos,
+  });
+  return new Blob([json], { type: 'application/json' });
+}
+
+export function downloadTreeBundle(bundle: Blob) {
+  const url = URL.createObjectURL(bundle);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `noel-magic-tree-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Validates the file and decodes every embedded image (regenerating thumbnails), so a corrupt
+// photo rejects the whole bundle before anything is replaced. Rejects with a TreeBundleError.
+export async function readTreeBundle(file: File): Promise<{ bundle: TreeBundle; photos: StoredPhoto[] }> {
+  const bundle = importTreeBundle(await file.text());
+  const photos: StoredPhoto[] = [];
+  for (const { image: dataUrl, ...meta } of bundle.photos) {
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      const image = await processImage(new File([blob], meta.filename, { type: blob.type }), {
+        maxSize: CONFIG.MAX_TEXTURE_SIZE,
+        thumbnailSize: CONFIG.THUMBNAIL_SIZE,
+      });
+      photos.push({ ...meta, width: image.width, height: image.height, blob: image.blob, thumbnail: image.thumbnail });
+    } catch {
+      throw new TreeBundleError('corrupt-photo', `${meta.filename}: the embedded image could not be decoded`);
+    }
+  }
+  return { bundle, photos };
+}
+
+function toDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,116 @@
+import { Theme } from './types';
+import { COLORS } from './constants';
+
+const CLASSIC_SHAPES = {
+  surface: { cube: 60, sphere: 24, ring: 8, diamond: 8 }, // More fancy shapes towards the surface
+  interior: { sphere: 1, candy: 1 },
+};
+
+export const CLASSIC_GOLD: Theme = {
+  id: 'classic-gold',
+  name: 'Classic Gold',
+  background: '#051005',
+  metal: COLORS.METALLIC_GOLD,
+  ornaments: {
+    palette: [
+      { color: COLORS.METALLIC_GOLD, weight: 0.2375, glow: 0.6 },
+      { color: COLORS.CHRISTMAS_RED, weight: 0.19, glow: 0.2 },
+      { color: COLORS.BRIGHT_GREEN, weight: 0.285, glow: 0.2 },
+      { color: COLORS.MATTE_GREEN, weight: 0.2375, glow: 0.2 },
+      { color: COLORS.WHITE, weight: 0.05, glow: 0.2 },
+    ],
+    specialColor: COLORS.METALLIC_GOLD,
+    specialGlow: 0.6,
+    surfaceRatio: 0.75,
+    surfaceShapes: CLASSIC_SHAPES.surface,
+    interiorShapes: CLASSIC_SHAPES.interior,
+  },
+  lighting: {
+    ambient: { color: COLORS.MATTE_GREEN, intensity: 0.5 },
+    // Warm lights to highlight gold
+    key: { position: [10, 10, 10], color: '#ffaa00', intensity: 2.5 },
+    fill: { position: [-10, 5, 10], color: '#ffddaa', intensity: 1.5 },
+    spot: { position: [-10, 15, 0], color: COLORS.CHRISTMAS_RED, intensity: 2 },
+    back: { position: [0, 0, -10], color: '#004400', intensity: 1 },
+  },
+  effects: {
+    bloomIntensity: 1.5,
+    bloomThreshold: 0.5,
+    bloomRadius: 0.6,
+    vignetteOffset: 0.1,
+    vignetteDarkness: 0.6,
+  },
+  tree: { height: 12, radiusBottom: 4.5 },
+};
+
+export const SNOWY_SILVER: Theme = {
+  id: 'snowy-silver',
+  name: 'Snowy Silver',
+  background: '#070b14',
+  metal: '#E6E9EF',
+  ornaments: {
+    palette: [
+      { color: '#FFFFFF', weight: 0.3, glow: 0.4 },
+      { color: '#C0C7D1', weight: 0.3, glow: 0.2 },
+      { color: '#A5D8FF', weight: 0.25, glow: 0.3 },
+      { color: '#5B7A99', weight: 0.15, glow: 0.1 },
+    ],
+    specialColor: '#F5F7FA',
+    specialGlow: 0.5,
+    surfaceRatio: 0.8,
+    surfaceShapes: CLASSIC_SHAPES.surface,
+    interiorShapes: CLASSIC_SHAPES.interior,
+  },
+  lighting: {
+    ambient: { color: '#9FB4CC', intensity: 0.6 },
+    key: { position: [10, 10, 10], color: '#dbe9ff', intensity: 2.2 },
+    fill: { position: [-10, 5, 10], color: '#ffffff', intensity: 1.4 },
+    spot: { position: [-10, 15, 0], color: '#7fb2ff', intensity: 1.8 },
+    back: { position: [0, 0, -10], color: '#1b2a44', intensity: 1 },
+  },
+  effects: {
+    bloomIntensity: 1.2,
+    bloomThreshold: 0.55,
+    bloomRadius: 0.7,
+    vignetteOffset: 0.15,
+    vignetteDarkness: 0.5,
+  },
+  tree: { height: 12, radiusBottom: 4.2 },
+};
+
+export const NEON: Theme = {
+  id: 'neon',
+  name: 'Neon',
+  background: '#05010f',
+  metal: '#00F0FF',
+  ornaments: {
+    palette: [
+      { color: '#FF2BD6', weight: 0.3, glow: 0.9 },
+      { color: '#00F0FF', weight: 0.3, glow: 0.9 },
+      { color: '#B6FF00', weight: 0.2, glow: 0.8 },
+      { color: '#8A2BFF', weight: 0.2, glow: 0.7 },
+    ],
+    specialColor: '#FFFFFF',
+    specialGlow: 1,
+    surfaceRatio: 0.75,
+    surfaceShapes: { cube: 40, sphere: 20, ring: 20, diamond: 20 },
+    interiorShapes: { sphere: 1, candy: 2 },
+  },
+  lighting: {
+    ambient: { color: '#2a0a4a', intensity: 0.4 },
+    key: { position: [10, 10, 10], color: '#ff2bd6', intensity: 2.5 },
+    fill: { position: [-10, 5, 10], color: '#00f0ff', intensity: 2 },
+    spot: { position: [-10, 15, 0], color: '#8a2bff', intensity: 2.5 },
+    back: { position: [0, 0, -10], color: '#00ff88', intensity: 1.2 },
+  },
+  effects: {
+    bloomIntensity: 2.2,
+    bloomThreshold: 0.35,
+    bloomRadius: 0.75,
+    vignetteOffset: 0.1,
+    vignetteDarkness: 0.75,
+  },
+  tree: { height: 13, radiusBottom: 4.5 },
+};
+
+export const BUILT_IN_THEMES: Theme[] = [CLASSIC_GOLD, SNOWY_SILVER, NEON];
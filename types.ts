@@ -9,22 +9,180 @@ export enum GestureType {
   FIST = 'FIST',      // Trigger TREE
   OPEN = 'OPEN',      // Trigger SCATTER
   PINCH = 'PINCH',    // Trigger FOCUS
+  ZOOM = 'ZOOM',      // Both hands pinching, spread / squeeze: camera distance
+  ROTATE = 'ROTATE',  // Both hands pinching, turned: spins the tree
+  POINT = 'POINT',    // Index finger only: aims the hand cursor with the fingertip
+  THUMBS_UP = 'THUMBS_UP', // Confirms the aimed photo
+  SWIPE_LEFT = 'SWIPE_LEFT',   // Quick horizontal hand movement: previous photo in FOCUS
+  SWIPE_RIGHT = 'SWIPE_RIGHT', // Next photo in FOCUS
+}
+
+// Single MediaPipe hand landmark in normalized image coordinates
+export interface HandLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Handedness {
+  label: 'Left' | 'Right';
+  score: number;
+}
+
+// One frame of tracking output, shared by every hand-tracking provider
+export interface HandTrackingResult {
+  multiHandLandmarks: HandLandmark[][];
+  multiHandedness: Handedness[];
+  timestamp: number; // ms
+  inferenceMs?: number; // Time the hand model took for this frame (live model only)
+}
+
+export type GesturePhase = 'start' | 'hold' | 'end';
+
+// With two hands visible one steers the camera and the other selects; a lone hand does both
+export type HandRole = 'steer' | 'select' | 'both';
+
+// Debounced gesture lifecycle event emitted by the gesture pipeline
+export interface GestureEvent {
+  phase: GesturePhase;
+  gesture: GestureType;
+  timestamp: number; // ms
+  duration: number;  // ms since the gesture started
+  hand?: Handedness['label']; // Omitted for two-hand gestures
+  role?: HandRole;
+}
+
+// What each visible hand is currently doing, for the overlay
+export interface HandStatus {
+  label: Handedness['label'];
+  role: HandRole;
+  gesture: GestureType;
+}
+
+// Continuous values of an engaged two-hand gesture, relative to when it locked in
+export interface TwoHandState {
+  gesture: GestureType; // ZOOM or ROTATE once locked in, NONE while both hands pinch but haven't moved enough
+  zoom: number;     // Palm distance ratio (> 1 = hands spread apart)
+  rotation: number; // Radians the line between the palms turned, counter-clockwise as seen on screen
 }
 
 export interface ParticleData {
   id: number;
   type: 'sphere' | 'cube' | 'candy' | 'ring' | 'diamond';
-  positionTree: [number, number, number];
-  positionScatter: [number, number, number];
+  targets: Record<string, [number, number, number]>; // Position per morph target id (see utils/morphTargets.ts)
   color: string;
+  glow: number; // Emissive intensity
   scale: number;
+  smoothTime: number; // Seconds to settle when morphing between targets
+  rank: number; // Fixed random value in [0, 1), orders staggered transitions
+}
+
+// Metadata kept for every photo in the library
+export interface PhotoMeta {
+  id: string;         // Stable identifier, independent of the photo's position in the list
+  filename: string;
+  width: number;      // Natural size in pixels
+  height: number;
+  uploadedAt: number; // Epoch ms
+  caption: string;
+  date: string;       // When the photo was taken, YYYY-MM-DD, or '' if unknown
+  author: string;
+}
+
+// A photo ready to display: metadata plus loadable URLs (object URLs for uploads)
+export interface Photo extends PhotoMeta {
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Progress of one file in the upload queue
+export interface UploadItem {
+  id: string;
+  filename: string;
+  status: 'processing' | 'done' | 'error';
+  error?: string;
 }
 
 export interface PhotoData {
   id: string;
   url: string;
+  thumbnailUrl: string; // Shown on the tree and in the scatter; the full image only once focused
   positionTree: [number, number, number];
   positionScatter: [number, number, number];
   rotation: [number, number, number];
   aspectRatio: number;
-}
\ No newline at end of file
+  caption: string;
+  date: string;
+  author: string;
+}
+
+// Screen-space hand cursor in normalized device coordinates (-1 to 1)
+export interface HandCursor {
+  x: number;
+  y: number;
+  visible: boolean;
+}
+
+// How the user drives the app: hand gestures via the webcam, or mouse / touch / keyboard
+export type InputMode = 'hands' | 'pointer';
+
+export type OrnamentType = ParticleData['type'];
+
+export interface ThemeLight {
+  position: [number, number, number];
+  color: string;
+  intensity: number;
+}
+
+export interface TreeDimensions {
+  height: number;
+  radiusBottom: number;
+}
+
+// Everything that defines the look of the scene; serializable to JSON for import / export
+export interface Theme {
+  id: string;
+  name: string;
+  background: string;
+  metal: string; // Garland, star, photo frames and hand cursor
+  ornaments: {
+    palette: { color: string; weight: number; glow: number }[]; // glow = emissive intensity
+    specialColor: string; // Rings and diamonds
+    specialGlow: number;
+    surfaceRatio: number; // Share of ornaments sitting on the tree surface (vs. inside)
+    surfaceShapes: Partial<Record<OrnamentType, number>>; // Relative weights
+    interiorShapes: Partial<Record<OrnamentType, number>>;
+  };
+  lighting: {
+    ambient: { color: string; intensity: number };
+    key: ThemeLight;
+    fill: ThemeLight;
+    spot: ThemeLight;
+    back: ThemeLight;
+  };
+  effects: {
+    bloomIntensity: number;
+    bloomThreshold: number;
+    bloomRadius: number;
+    vignetteOffset: number;
+    vignetteDarkness: number;
+  };
+  tree: TreeDimensions;
+}
+
+// Runtime-tunable scene parameters; tree size and bloom default to the active theme's values
+export interface SceneSettings {
+  particleCount: number;
+  scatterRadius: number;
+  treeHeight: number;
+  treeRadiusBottom: number;
+  garlandLoops: number;
+  bloomIntensity: number;
+  bloomThreshold: number;
+  treeRotationSpeed: number; // Radians per second
+  garlandRotationSpeed: number;
+  ornamentSpinSpeed: number;
+  snowDensity: number; // Flakes (0 = none)
+  snowFlakeSize: number;
+  snowWind: number;
+}
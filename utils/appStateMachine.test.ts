@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, GestureType } from '../types';
+import {
+  AppEvent,
+  AppMachineState,
+  createAppStateMachine,
+  DEFAULT_APP_TRANSITIONS,
+  INITIAL_APP_MACHINE_STATE,
+  transition,
+} from './appStateMachine';
+
+const state = (appState: AppState, focusedPhotoIndex: number | null = null): AppMachineState => ({
+  appState,
+  focusedPhotoIndex,
+  cause: null,
+});
+
+const gesture = (type: GestureType, target: number | null = null, photoCount = 3): AppEvent => ({
+  type: 'GESTURE',
+  gesture: type,
+  target,
+  photoCount,
+});
+
+describe('transition', () => {
+  it('FIST returns to TREE from SCATTER and FOCUS', () => {
+    expect(transition(state(AppState.SCATTER), gesture(GestureType.FIST))).toEqual({
+      appState: AppState.TREE,
+      focusedPhotoIndex: null,
+      cause: GestureType.FIST,
+    });
+    expect(transition(state(AppState.FOCUS, 1), gesture(GestureType.FIST))).toMatchObject({
+      appState: AppState.TREE,
+      focusedPhotoIndex: null,
+    });
+  });
+
+  it('OPEN scatters from TREE and backs out of FOCUS', () => {
+    expect(transition(state(AppState.TREE), gesture(GestureType.OPEN))).toMatchObject({
+      appState: AppState.SCATTER,
+      cause: GestureType.OPEN,
+    });
+    expect(transition(state(AppState.FOCUS, 2), gesture(GestureType.OPEN))).toMatchObject({
+      appState: AppState.SCATTER,
+      focusedPhotoIndex: null,
+    });
+  });
+
+  it('PINCH focuses the targeted photo while scattered', () => {
+    expect(transition(state(AppState.SCATTER), gesture(GestureType.PINCH, 2))).toEqual({
+      appState: AppState.FOCUS,
+      focusedPhotoIndex: 2,
+      cause: GestureType.PINCH,
+    });
+  });
+
+  it('PINCH without a target does nothing', () => {
+    const scattered = state(AppState.SCATTER);
+    expect(transition(scattered, gesture(GestureType.PINCH, null))).toBe(scattered);
+  });
+
+  it('THUMBS_UP focuses the aimed photo while scattered', () => {
+    expect(transition(state(AppState.SCATTER), gesture(GestureType.THUMBS_UP, 0))).toEqual({
+      appState: AppState.FOCUS,
+      focusedPhotoIndex: 0,
+      cause: GestureType.THUMBS_UP,
+    });
+  });
+
+  it('THUMBS_UP without a target does nothing', () => {
+    const scattered = state(AppState.SCATTER);
+    expect(transition(scattered, gesture(GestureType.THUMBS_UP, null))).toBe(scattered);
+  });
+
+  it('SWIPE_LEFT browses to the previous photo, wrapping to the last', () => {
+    expect(transition(state(AppState.FOCUS, 1), gesture(GestureType.SWIPE_LEFT))).toMatchObject({
+      appState: AppState.FOCUS,
+      focusedPhotoIndex: 0,
+    });
+    expect(transition(state(AppState.FOCUS, 0), gesture(GestureType.SWIPE_LEFT))).toMatchObject({
+      focusedPhotoIndex: 2,
+    });
+  });
+
+  it('SWIPE_RIGHT browses to the next photo, wrapping to the first', () => {
+    expect(transition(state(AppState.FOCUS, 1), gesture(GestureType.SWIPE_RIGHT))).toMatchObject({
+      appState: AppState.FOCUS,
+      focusedPhotoIndex: 2,
+    });
+    expect(transition(state(AppState.FOCUS, 2), gesture(GestureType.SWIPE_RIGHT))).toMatchObject({
+      focusedPhotoIndex: 0,
+    });
+  });
+
+  it('swipes do nothing with a single photo', () => {
+    const focused = state(AppState.FOCUS, 0);
+    expect(transition(focused, gesture(GestureType.SWIPE_RIGHT, null, 1))).toBe(focused);
+  });
+
+  it('REMOVE_PHOTO returns from FOCUS to SCATTER', () => {
+    expect(transition(state(AppState.FOCUS, 1), { type: 'REMOVE_PHOTO' })).toEqual({
+      appState: AppState.SCATTER,
+      focusedPhotoIndex: null,
+      cause: null,
+    });
+  });
+
+  it('SHOW_PHOTO focuses the given photo from any state', () => {
+    for (const appState of [AppState.TREE, AppState.SCATTER, AppState.FOCUS]) {
+      expect(transition(state(appState, 0), { type: 'SHOW_PHOTO', index: 2 })).toEqual({
+        appState: AppState.FOCUS,
+        focusedPhotoIndex: 2,
+        cause: null,
+      });
+    }
+  });
+
+  it('returns the same state when no row matches', () => {
+    const tree = state(AppState.TREE);
+    expect(transition(tree, gesture(GestureType.FIST))).toBe(tree);
+    expect(transition(tree, gesture(GestureType.PINCH, 1))).toBe(tree);
+    expect(transition(tree, { type: 'REMOVE_PHOTO' })).toBe(tree);
+  });
+
+  it('skips a row whose guard fails and falls through to the next match', () => {
+    const table = [
+      { from: [AppState.TREE], on: GestureType.OPEN, to: AppState.FOCUS, guard: () => false },
+      ...DEFAULT_APP_TRANSITIONS,
+    ];
+    expect(transition(state(AppState.TREE), gesture(GestureType.OPEN), table).appState).toBe(AppState.SCATTER);
+  });
+});
+
+describe('createAppStateMachine', () => {
+  it('starts in TREE and ignores events that change nothing', () => {
+    const machine = createAppStateMachine();
+    const calls: string[] = [];
+    machine.subscribe(() => calls.push('change'));
+    expect(machine.getState()).toBe(INITIAL_APP_MACHINE_STATE);
+    expect(machine.send(gesture(GestureType.FIST))).toBe(INITIAL_APP_MACHINE_STATE);
+    expect(calls).toEqual([]);
+  });
+
+  it('notifies exit, then enter, then transition listeners, whatever the registration order', () => {
+    const machine = createAppStateMachine();
+    const calls: string[] = [];
+    machine.subscribe(({ from, to }) => calls.push(`change ${from.appState}->${to.appState}`));
+    machine.onEnter(AppState.SCATTER, () => calls.push('enter SCATTER'));
+    machine.onExit(AppState.TREE, () => calls.push('exit TREE'));
+    machine.onEnter(AppState.FOCUS, () => calls.push('enter FOCUS'));
+
+    machine.send(gesture(GestureType.OPEN));
+    expect(calls).toEqual(['exit TREE', 'enter SCATTER', 'change TREE->SCATTER']);
+  });
+
+  it('skips enter / exit on changes within a state', () => {
+    const machine = createAppStateMachine(DEFAULT_APP_TRANSITIONS, state(AppState.FOCUS, 0));
+    const calls: string[] = [];
+    machine.onExit(AppState.FOCUS, () => calls.push('exit FOCUS'));
+    machine.onEnter(AppState.FOCUS, () => calls.push('enter FOCUS'));
+    machine.subscribe(({ to }) => calls.push(`focus ${to.focusedPhotoIndex}`));
+
+    machine.send(gesture(GestureType.SWIPE_RIGHT));
+    expect(calls).toEqual(['focus 1']);
+  });
+
+  it('stops notifying after unsubscribing', () => {
+    const machine = createAppStateMachine();
+    const calls: string[] = [];
+    const unsubscribe = machine.subscribe(() => calls.push('change'));
+    const offEnter = machine.onEnter(AppState.SCATTER, () => calls.push('enter'));
+    unsubscribe();
+    offEnter();
+
+    machine.send(gesture(GestureType.OPEN));
+    expect(calls).toEqual([]);
+    expect(machine.getState().appState).toBe(AppState.SCATTER);
+  });
+});
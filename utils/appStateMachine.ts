@@ -0,0 +1,172 @@
+import { AppState, GestureType } from '../types';
+
+// Gesture-driven app state machine: a pure reducer over a declarative transition table,
+// plus a small store that notifies enter / exit / transition listeners.
+
+export interface AppMachineState {
+  appState: AppState;
+  focusedPhotoIndex: number | null;
+  cause: GestureType | null; // Gesture that caused the last transition (null for UI events)
+}
+
+export type AppEvent =
+  // target: photo under (or last aimed at by) the hand cursor; photoCount lets swipes wrap around
+  | { type: 'GESTURE'; gesture: GestureType; target: number | null; photoCount: number }
+  | { type: 'REMOVE_PHOTO' }
+  // Focus a given photo from any state (auto-tour)
+  | { type: 'SHOW_PHOTO'; index: number };
+
+export type AppEventKey = GestureType | Exclude<AppEvent['type'], 'GESTURE'>;
+
+export interface AppTransition {
+  from: AppState[] | '*';
+  on: AppEventKey;
+  to: AppState;
+  guard?: (state: AppMachineState, event: AppEvent) => boolean;
+  // New focused photo; omitted = keep the current one
+  focus?: (state: AppMachineState, event: AppEvent) => number | null;
+}
+
+export interface AppTransitionEvent {
+  from: AppMachineState;
+  to: AppMachineState;
+  event: AppEvent;
+}
+
+export const INITIAL_APP_MACHINE_STATE: AppMachineState = {
+  appState: AppState.TREE,
+  focusedPhotoIndex: null,
+  cause: null,
+};
+
+// First matching row wins, so more specific rows go first
+export const DEFAULT_APP_TRANSITIONS: AppTransition[] = [
+  // FIST forces TREE
+  { from: [AppState.SCATTER, AppState.FOCUS], on: GestureType.FIST, to: AppState.TREE, focus: () => null },
+  // OPEN forces SCATTER (also backs out of FOCUS)
+  { from: [AppState.TREE, AppState.FOCUS], on: GestureType.OPEN, to: AppState.SCATTER, focus: () => null },
+  // PINCH focuses the photo under the hand cursor while SCATTERED
+  {
+    from: [AppState.SCATTER],
+    on: GestureType.PINCH,
+    to: AppState.FOCUS,
+    guard: (_, event) => event.type === 'GESTURE' && event.target !== null,
+    focus: (_, event) => (event.type === 'GESTURE' ? event.target : null),
+  },
+  // THUMBS_UP confirms the photo aimed at (e.g. by POINTing) while SCATTERED
+  {
+    from: [AppState.SCATTER],
+    on: GestureType.THUMBS_UP,
+    to: AppState.FOCUS,
+    guard: (_, event) => event.type === 'GESTURE' && event.target !== null,
+    focus: (_, event) => (event.type === 'GESTURE' ? event.target : null),
+  },
+  // Swipes browse to the previous / next photo while FOCUSED, wrapping around
+  {
+    from: [AppState.FOCUS],
+    on: GestureType.SWIPE_LEFT,
+    to: AppState.FOCUS,
+    guard: canBrowse,
+    focus: (state, event) => browse(state, event, -1),
+  },
+  {
+    from: [AppState.FOCUS],
+    on: GestureType.SWIPE_RIGHT,
+    to: AppState.FOCUS,
+    guard: canBrowse,
+    focus: (state, event) => browse(state, event, 1),
+  },
+  // The auto-tour shows its next photo, wherever the app is
+  {
+    from: '*',
+    on: 'SHOW_PHOTO',
+    to: AppState.FOCUS,
+    focus: (state, event) => (event.type === 'SHOW_PHOTO' ? event.index : state.focusedPhotoIndex),
+  },
+  // Return to scatter mode after deleting the focused photo
+  { from: [AppState.FOCUS], on: 'REMOVE_PHOTO', to: AppState.SCATTER, focus: () => null },
+];
+
+function canBrowse(state: AppMachineState, event: AppEvent): boolean {
+  return state.focusedPhotoIndex !== null && event.type === 'GESTURE' && event.photoCount > 1;
+}
+
+function browse(state: AppMachineState, event: AppEvent, step: number): number | null {
+  if (state.focusedPhotoIndex === null || event.type !== 'GESTURE') return state.focusedPhotoIndex;
+  return (state.focusedPhotoIndex + step + event.photoCount) % event.photoCount;
+}
+
+export function eventKey(event: AppEvent): AppEventKey {
+  return event.type === 'GESTURE' ? event.gesture : event.type;
+}
+
+// Pure reducer: returns `state` itself when no transition applies
+export function transition(
+  state: AppMachineState,
+  event: AppEvent,
+  table: AppTransition[] = DEFAULT_APP_TRANSITIONS
+): AppMachineState {
+  const key = eventKey(event);
+  const row = table.find((t) =>
+    t.on === key
+    && (t.from === '*' || t.from.includes(state.appState))
+    && (!t.guard || t.guard(state, event))
+  );
+  if (!row) return state;
+
+  return {
+    appState: row.to,
+    focusedPhotoIndex: row.focus ? row.focus(state, event) : state.focusedPhotoIndex,
+    cause: event.type === 'GESTURE' ? event.gesture : null,
+  };
+}
+
+type Listener = (transition: AppTransitionEvent) => void;
+
+export interface AppStateMachine {
+  getState: () => AppMachineState;
+  send: (event: AppEvent) => AppMachineState;
+  subscribe: (listener: Listener) => () => void;
+  onEnter: (appState: AppState, listener: Listener) => () => void;
+  onExit: (appState: AppState, listener: Listener) => () => void;
+}
+
+export function createAppStateMachine(
+  table: AppTransition[] = DEFAULT_APP_TRANSITIONS,
+  initial: AppMachineState = INITIAL_APP_MACHINE_STATE
+): AppStateMachine {
+  let state = initial;
+  // Each change notifies exit listeners, then enter listeners, then everyone subscribed to all transitions
+  const exitListeners = new Set<{ appState: AppState; listener: Listener }>();
+  const enterListeners = new Set<{ appState: AppState; listener: Listener }>();
+  const listeners = new Set<Listener>();
+
+  const add = <T>(set: Set<T>, entry: T) => {
+    set.add(entry);
+    return () => {
+      set.delete(entry);
+    };
+  };
+
+  const send = (event: AppEvent) => {
+    const next = transition(state, event, table);
+    if (next === state) return state;
+    const change = { from: state, to: next, event };
+    state = next;
+    // Enter / exit only fire when the AppState actually changes, not on focus changes within a state
+    if (change.from.appState !== change.to.appState) {
+      exitListeners.forEach(({ appState, listener }) => appState === change.from.appState && listener(change));
+      enterListeners.forEach(({ appState, listener }) => appState === change.to.appState && listener(change));
+    }
+    listeners.forEach((listener) => listener(change));
+    return state;
+  };
+
+  return {
+    getState: () => state,
+    send,
+    subscribe: (listener) => add(listeners, listener),
+    onEnter: (appState, listener) => add(enterListeners, { appState, listener }),
+    onExit: (appState, listener) => add(exitListeners, { appState, listener }),
+  };
+}
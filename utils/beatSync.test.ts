@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { clockTempo, createBeatClock, createBeatDetector, createTapTempo, estimateTempo, TAP_RESET_S } from './beatSync';
+
+const FRAME_S = 1 / 60;
+
+// Spectra of a kick drum on every beat (none without a tempo) over noise, one per animation frame
+function listen(bpm: number | null, firstBeat: number, seconds: number) {
+  const clock = createBeatClock();
+  const detector = createBeatDetector();
+  let seed = 1;
+  const noise = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  let onsets = 0;
+  for (let t = 0; t < seconds; t += FRAME_S) {
+    const period = bpm === null ? 0 : 60 / bpm;
+    const sinceBeat = period > 0 ? (((t - firstBeat) % period) + period) % period : Infinity;
+    const kick = sinceBeat < 0.08 ? 200 * Math.exp(-sinceBeat * 20) : 0;
+    if (detector.process(Array.from({ length: 32 }, () => 30 + noise() * 20 + kick), t, clock)) onsets++;
+  }
+  return { clock, onsets };
+}
+
+// How far the clock's beat is from the music's, in beats
+function phaseError(anchor: number, bpm: number, firstBeat: number): number {
+  const beats = (((anchor - firstBeat) / (60 / bpm)) % 1 + 1) % 1;
+  return Math.min(beats, 1 - beats);
+}
+
+describe('createTapTempo', () => {
+  it('puts a beat on the first tap and sets the tempo from the next ones', () => {
+    const clock = createBeatClock();
+    const tapTempo = createTapTempo();
+    tapTempo.tap(clock, 10);
+    expect(clock).toEqual({ bpm: null, anchor: 10 });
+    [10.5, 11, 11.5].forEach((t) => tapTempo.tap(clock, t));
+    expect(clock.bpm).toBeCloseTo(120);
+    expect(clock.anchor).toBe(11.5);
+  });
+
+  it('starts a new tempo after a pause, keeping the old one until the second tap', () => {
+    const clock = createBeatClock();
+    const tapTempo = createTapTempo();
+    [0, 0.5, 1].forEach((t) => tapTempo.tap(clock, t));
+    tapTempo.tap(clock, 1 + TAP_RESET_S + 1);
+    expect(clock.bpm).toBeCloseTo(120);
+    tapTempo.tap(clock, 4.6);
+    expect(clock.bpm).toBeCloseTo(100);
+  });
+});
+
+describe('createBeatDetector', () => {
+  it.each([72, 120, 128, 174])('follows a kick drum at %i BPM', (bpm) => {
+    const { clock } = listen(bpm, 0.123, 12);
+    expect(clock.bpm).toBeCloseTo(bpm, 0);
+    expect(phaseError(clock.anchor!, bpm, 0.123)).toBeLessThan(0.05);
+  });
+
+  it('hears no beat in noise', () => {
+    expect(listen(null, 0, 12)).toEqual({ clock: { bpm: null, anchor: null }, onsets: 0 });
+  });
+});
+
+describe('estimateTempo', () => {
+  it('picks the beat over its half and double', () => {
+    const onsets = Array.from({ length: 12 }, (_, i) => i * 0.4);
+    expect(estimateTempo(onsets)).toBeCloseTo(150, 0);
+  });
+});
+
+describe('clockTempo', () => {
+  it('plays the exact tempo until the setting is moved away from it', () => {
+    const clock = { bpm: 121.4, anchor: 0 };
+    expect(clockTempo(clock, 121)).toBe(121.4);
+    expect(clockTempo(clock, 110)).toBe(110);
+    expect(clockTempo(createBeatClock(), 110)).toBe(110);
+  });
+});
@@ -0,0 +1,165 @@
+// Beat sync for tempo-following light patterns (pulse): a shared clock holding the tempo and the time of one
+// beat, set by tapping along or by beats heard on the microphone. Pure; services/beatListener.ts feeds the
+// detector from an AnalyserNode and components/TreeLights.tsx plays the patterns on the clock.
+
+export interface BeatClock {
+  bpm: number | null;    // Unrounded; null until a tempo is tapped or heard
+  anchor: number | null; // Time of one beat in seconds (performance.now() / 1000); null until the first tap or beat
+}
+
+export const MIN_BPM = 60;
+export const MAX_BPM = 180;
+
+export type BeatSyncFailure = 'unsupported' | 'permission-denied' | 'no-device' | 'failed';
+
+export class BeatSyncError extends Error {
+  constructor(public reason: BeatSyncFailure, message: string) {
+    super(message);
+    this.name = 'BeatSyncError';
+  }
+}
+
+export function createBeatClock(): BeatClock {
+  return { bpm: null, anchor: null };
+}
+
+// The tempo to play: the light settings hold the clock's tempo rounded, so the clock's own one plays while it
+// still matches them; moving the tempo slider away takes over
+export function clockTempo(clock: BeatClock, setting: number): number {
+  return clock.bpm !== null && Math.abs(clock.bpm - setting) < 1 ? clock.bpm : setting;
+}
+
+// A pause this long between taps starts a new tempo
+export const TAP_RESET_S = 2;
+const MAX_TAPS = 8;
+
+// Tap along to the music: every tap puts a beat on it, two or more also set the tempo from their spacing
+export function createTapTempo() {
+  let taps: number[] = [];
+
+  const tap = (clock: BeatClock, time: number) => {
+    if (taps.length > 0 && time - taps[taps.length - 1] > TAP_RESET_S) taps = [];
+    taps = [...taps.slice(1 - MAX_TAPS), time];
+    clock.anchor = time;
+    if (taps.length >= 2) clock.bpm = clamp((60 * (taps.length - 1)) / (time - taps[0]), MIN_BPM, MAX_BPM);
+  };
+
+  const reset = () => {
+    taps = [];
+  };
+
+  return { tap, reset };
+}
+
+export interface BeatDetectorConfig {
+  bins: [number, number]; // Spectrum bins watched, [from, to): the bass, where the kick drum is
+  threshold: number;      // An onset rises this many times above the recent average flux
+  minFlux: number;        // ... and at least this much, so hiss in a quiet room isn't heard as beats
+  minInterval: number;    // Seconds between onsets at least
+  window: number;         // Seconds of onsets the tempo is estimated from
+  minOnsets: number;      // Onsets in the window before a tempo is trusted
+}
+
+// Bins 1 to 12 are about 20 to 280 Hz at a 2048-point FFT of 44.1 or 48 kHz audio
+export const DEFAULT_BEAT_DETECTOR_CONFIG: BeatDetectorConfig = {
+  bins: [1, 12],
+  threshold: 1.6,
+  minFlux: 150,
+  minInterval: 0.3,
+  window: 8,
+  minOnsets: 6,
+};
+
+// Onsets are sudden rises in bass energy (spectral flux); the tempo and the beat's phase are estimated from the
+// onsets of the last few seconds and written into the clock
+export function createBeatDetector(overrides: Partial<BeatDetectorConfig> = {}) {
+  const config = { ...DEFAULT_BEAT_DETECTOR_CONFIG, ...overrides };
+  let previous: number[] | null = null;
+  let average = 0;
+  let lastTime: number | null = null;
+  let onsets: number[] = [];
+
+  // One spectrum (AnalyserNode.getByteFrequencyData) heard at `time` seconds; returns whether it was an onset
+  const process = (spectrum: ArrayLike<number>, time: number, clock: BeatClock): boolean => {
+    const [from, to] = config.bins;
+    const levels = Array.from({ length: to - from }, (_, i) => spectrum[from + i] ?? 0);
+    const flux = previous ? levels.reduce((sum, level, i) => sum + Math.max(0, level - previous![i]), 0) : 0;
+    previous = levels;
+
+    const lastOnset = onsets.length > 0 ? onsets[onsets.length - 1] : -Infinity;
+    const isOnset = flux >= config.minFlux && flux > average * config.threshold && time - lastOnset >= config.minInterval;
+    // About a second of memory, whatever the frame rate
+    const dt = lastTime === null ? 0 : Math.max(0, time - lastTime);
+    average += (flux - average) * Math.min(1, dt);
+    lastTime = time;
+    if (!isOnset) return false;
+
+    onsets = [...onsets.filter((t) => time - t <= config.window), time];
+    if (onsets.length >= config.minOnsets) {
+      const bpm = estimateTempo(onsets);
+      if (bpm !== null) Object.assign(clock, fitBeatGrid(onsets, bpm));
+    }
+    return true;
+  };
+
+  const reset = () => {
+    previous = null;
+    average = 0;
+    lastTime = null;
+    onsets = [];
+  };
+
+  return { process, reset };
+}
+
+// Every pair of onsets up to two seconds apart votes for the tempo its spacing gives, folded into the BPM range
+// by doubling or halving. Nearer pairs weigh more, and the neighbouring tempos get half a vote so near misses add
+// up; the winner is refined by its neighbours' votes.
+// Frame timing makes this only close; fitBeatGrid pins the tempo down.
+export function estimateTempo(onsets: number[]): number | null {
+  const votes = new Float64Array(MAX_BPM - MIN_BPM + 1);
+  for (let i = 0; i < onsets.length; i++) {
+    for (let j = i + 1; j < onsets.length; j++) {
+      const interval = onsets[j] - onsets[i];
+      if (interval > 2) break;
+      let bpm = 60 / interval;
+      while (bpm > MAX_BPM) bpm /= 2;
+      while (bpm < MIN_BPM) bpm *= 2;
+      const index = Math.round(bpm - MIN_BPM);
+      const weight = 1 / (j - i);
+      votes[index] += weight;
+      if (index > 0) votes[index - 1] += weight / 2;
+      if (index < votes.length - 1) votes[index + 1] += weight / 2;
+    }
+  }
+
+  let best = 0;
+  votes.forEach((vote, i) => {
+    if (vote > votes[best]) best = i;
+  });
+  if (votes[best] === 0) return null;
+  const neighbours = [best - 1, best, best + 1].filter((i) => i >= 0 && i < votes.length);
+  const total = neighbours.reduce((sum, i) => sum + votes[i], 0);
+  return MIN_BPM + neighbours.reduce((sum, i) => sum + i * votes[i], 0) / total;
+}
+
+// Fits a beat grid at about the voted tempo to the onsets by least squares: each onset near the grid is given the
+// number of its beat (0 for the last onset), and the line through them gives the period and the time of beat 0.
+// Onsets between beats (syncopation) are left out.
+export function fitBeatGrid(onsets: number[], bpm: number): { bpm: number; anchor: number } {
+  const period = 60 / bpm;
+  const last = onsets[onsets.length - 1];
+  const points = onsets
+    .map((t) => ({ k: Math.round((t - last) / period), t }))
+    .filter(({ k, t }) => Math.abs(t - last - k * period) < period / 4);
+  const meanK = points.reduce((sum, { k }) => sum + k, 0) / points.length;
+  const meanT = points.reduce((sum, { t }) => sum + t, 0) / points.length;
+  const spread = points.reduce((sum, { k }) => sum + (k - meanK) ** 2, 0);
+  const fitted = spread > 0 ? points.reduce((sum, { k, t }) => sum + (k - meanK) * (t - meanT), 0) / spread : period;
+  const fittedBpm = clamp(60 / fitted, MIN_BPM, MAX_BPM);
+  return { bpm: fittedBpm, anchor: meanT - meanK * (60 / fittedBpm) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,140 @@
+import { GesturePipelineConfig, HandMeasurements } from './gesturePipeline';
+import { isFiniteNumber, isRecord } from './guards';
+
+// Per-user calibration: the wizard records hand measurements while the user holds each pose,
+// and this module turns them into personal gesture thresholds and a comfortable motion range
+
+export const CALIBRATION_VERSION = 1;
+
+export type CalibrationStepId = 'open' | 'fist' | 'pinch' | 'range';
+
+export interface CalibrationStep {
+  id: CalibrationStepId;
+  title: string;
+  instruction: string;
+  samples: number; // Frames with a visible hand to record
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  { id: 'open', title: 'Open hand', instruction: 'Hold your hand up with the fingers spread.', samples: 45 },
+  { id: 'fist', title: 'Fist', instruction: 'Close your hand into a fist.', samples: 45 },
+  { id: 'pinch', title: 'Pinch', instruction: 'Touch the tips of your thumb and index finger together.', samples: 45 },
+  { id: 'range', title: 'Reach', instruction: 'Slowly move your open hand to every edge you can comfortably reach.', samples: 150 },
+];
+
+// Palm area (image space, 0 to 1) that maps to the whole screen
+export interface MotionRange {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// Matches the original fixed mapping: the central ~70% of the webcam image covers the screen
+export const DEFAULT_MOTION_RANGE: MotionRange = { minX: 0.15, maxX: 0.85, minY: 0.15, maxY: 0.85 };
+
+export interface CalibrationProfile {
+  version: number;
+  createdAt: string;
+  pinchEnter: number;
+  pinchExit: number;
+  extendedBend: number;
+  curledBend: number;
+  motionRange: MotionRange;
+}
+
+export type CalibrationSamples = Record<CalibrationStepId, HandMeasurements[]>;
+
+// Derives thresholds between the user's own poses; throws with a readable message when two poses overlap
+export function deriveCalibration(samples: CalibrationSamples): CalibrationProfile {
+  const missing = CALIBRATION_STEPS.find((step) => samples[step.id].length === 0);
+  if (missing) throw new Error(`No hand was seen during "${missing.title}".`);
+
+  // Bends: the most bent finger of the open hand vs. the least bent finger of the fist
+  const openBend = percentile(samples.open.flatMap((m) => m.fingerBends), 0.9);
+  const fistBend = percentile(samples.fist.flatMap((m) => m.fingerBends), 0.1);
+  if (fistBend - openBend < 0.3) {
+    throw new Error('Open hand and fist looked too similar. Spread your fingers wide and close the fist tightly.');
+  }
+
+  // Pinch: the widest pinch vs. the closest thumb-index gap with the hand open
+  const pinched = percentile(samples.pinch.map((m) => m.pinchDistance), 0.9);
+  const apart = percentile(samples.open.map((m) => m.pinchDistance), 0.1);
+  if (apart - pinched < 0.15) {
+    throw new Error('Pinch and open hand looked too similar. Make sure thumb and index tips touch.');
+  }
+
+  const xs = samples.range.map((m) => m.palm.x);
+  const ys = samples.range.map((m) => m.palm.y);
+  const motionRange = {
+    minX: percentile(xs, 0.05),
+    maxX: percentile(xs, 0.95),
+    minY: percentile(ys, 0.05),
+    maxY: percentile(ys, 0.95),
+  };
+  if (motionRange.maxX - motionRange.minX < 0.15 || motionRange.maxY - motionRange.minY < 0.15) {
+    throw new Error('The hand barely moved. Reach further towards the edges of the camera view.');
+  }
+
+  return {
+    version: CALIBRATION_VERSION,
+    createdAt: new Date().toISOString(),
+    pinchEnter: pinched + (apart - pinched) * 0.3,
+    pinchExit: pinched + (apart - pinched) * 0.55,
+    extendedBend: openBend + (fistBend - openBend) * 0.35,
+    curledBend: openBend + (fistBend - openBend) * 0.65,
+    motionRange,
+  };
+}
+
+export function calibrationPipelineConfig(profile: CalibrationProfile): Partial<GesturePipelineConfig> {
+  const { pinchEnter, pinchExit, extendedBend, curledBend } = profile;
+  return { pinchEnter, pinchExit, extendedBend, curledBend };
+}
+
+// Palm position to -1..1 screen coordinates (unclamped); X is flipped because the webcam image is mirrored
+export function mapPalmToScreen(palm: { x: number; y: number }, range: MotionRange): { x: number; y: number } {
+  const centerX = (range.minX + range.maxX) / 2;
+  const centerY = (range.minY + range.maxY) / 2;
+  return {
+    x: (centerX - palm.x) / ((range.maxX - range.minX) / 2),
+    y: (centerY - palm.y) / ((range.maxY - range.minY) / 2),
+  };
+}
+
+// Validates a stored profile; returns null for anything missing or malformed
+export function parseCalibrationProfile(json: string): CalibrationProfile | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data) || data.version !== CALIBRATION_VERSION) return null;
+  const { pinchEnter, pinchExit, extendedBend, curledBend, motionRange } = data;
+  if (!isFiniteNumber(pinchEnter) || !isFiniteNumber(pinchExit) || !isFiniteNumber(extendedBend) || !isFiniteNumber(curledBend)) {
+    return null;
+  }
+  if (!isMotionRange(motionRange)) return null;
+  return {
+    version: CALIBRATION_VERSION,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    pinchEnter,
+    pinchExit,
+    extendedBend,
+    curledBend,
+    motionRange: { minX: motionRange.minX, maxX: motionRange.maxX, minY: motionRange.minY, maxY: motionRange.maxY },
+  };
+}
+
+function isMotionRange(value: unknown): value is MotionRange {
+  return isRecord(value)
+    && isFiniteNumber(value.minX) && isFiniteNumber(value.maxX) && isFiniteNumber(value.minY) && isFiniteNumber(value.maxY)
+    && value.maxX > value.minX && value.maxY > value.minY;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
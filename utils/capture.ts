@@ -0,0 +1,68 @@
+import { AppState } from '../types';
+
+// Scene capture: high-resolution stills and scripted WebM clips of the canvas.
+// Pure helpers; the scene renders the still (components/Experience.tsx) and services/sceneRecorder.ts records.
+
+// Registered by the scene while it is mounted, so the UI can capture without reaching into the canvas
+export interface SceneCapturer {
+  // Renders one frame (effects included) at `scale` times the on-screen resolution and encodes it as PNG
+  snapshot: (scale: number) => Promise<Blob>;
+  canvas: HTMLCanvasElement;
+}
+
+export type CaptureFailure = 'unavailable' | 'unsupported' | 'encode-failed';
+
+export class CaptureError extends Error {
+  constructor(public reason: CaptureFailure, message: string) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
+
+export const SNAPSHOT_SCALES = [
+  { value: 1, label: '1×' },
+  { value: 2, label: '2×' },
+  { value: 4, label: '4×' },
+];
+
+// Holding a thumbs up this long takes a snapshot
+export const SNAPSHOT_HOLD_MS = 1500;
+
+// The clip shows the tree, scatters it and focuses a photo; FOCUS is skipped without photos
+export const RECORDING_SEQUENCE: { state: AppState; atMs: number }[] = [
+  { state: AppState.TREE, atMs: 0 },
+  { state: AppState.SCATTER, atMs: 4000 },
+  { state: AppState.FOCUS, atMs: 8000 },
+];
+export const RECORDING_STEP_MS = 4000; // How long the last step stays on screen
+
+export const RECORDING_FPS = 30;
+export const RECORDING_BITS_PER_SECOND = 8_000_000;
+
+// Best first; browsers without any of these (Safari) can't record WebM
+const RECORDER_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function recordingSequence(photoCount: number): { steps: typeof RECORDING_SEQUENCE; durationMs: number } {
+  const steps = RECORDING_SEQUENCE.filter((step) => step.state !== AppState.FOCUS || photoCount > 0);
+  return { steps, durationMs: steps[steps.length - 1].atMs + RECORDING_STEP_MS };
+}
+
+export function pickRecorderMimeType(isSupported: (type: string) => boolean): string | null {
+  return RECORDER_MIME_TYPES.find(isSupported) ?? null;
+}
+
+// Pixel ratio for a still `scale` times the on-screen resolution, capped so the longer side fits in a texture
+export function snapshotPixelRatio(
+  scale: number,
+  pixelRatio: number,
+  size: { width: number; height: number },
+  maxSize: number
+): number {
+  const longest = Math.max(size.width, size.height, 1);
+  return Math.min(pixelRatio * scale, maxSize / longest);
+}
+
+export function captureFileName(kind: 'snapshot' | 'clip', date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace('T', '-').replace(/:/g, '');
+  return `noel-magic-${kind}-${stamp}.${kind === 'snapshot' ? 'png' : 'webm'}`;
+}
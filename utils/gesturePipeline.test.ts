@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { GestureEvent, GestureType, HandLandmark } from '../types';
+import { classifyGesture, createGesturePipeline, DEFAULT_GESTURE_PIPELINE_CONFIG, OneEuroFilter } from './gesturePipeline';
+import { hand } from './syntheticHands';
+
+const FRAME_MS = 33;
+
+// Feeds `landmarks(t)` every frame over [from, to) and collects the events
+function run(
+  pipeline: ReturnType<typeof createGesturePipeline>,
+  from: number,
+  to: number,
+  landmarks: (t: number) => HandLandmark[] | null
+): GestureEvent[] {
+  const events: GestureEvent[] = [];
+  for (let t = from; t < to; t += FRAME_MS) events.push(...pipeline.process(landmarks(t), t).events);
+  return events;
+}
+
+const transitions = (events: GestureEvent[]) =>
+  events.filter((e) => e.phase !== 'hold').map((e) => `${e.phase} ${e.gesture}`);
+
+describe('classifyGesture', () => {
+  it('recognizes each pose', () => {
+    expect(classifyGesture(hand('open'), false)).toBe(GestureType.OPEN);
+    expect(classifyGesture(hand('fist'), false)).toBe(GestureType.FIST);
+    expect(classifyGesture(hand('pinch'), false)).toBe(GestureType.PINCH);
+    expect(classifyGesture(hand('point'), false)).toBe(GestureType.POINT);
+    expect(classifyGesture(hand('thumbs-up'), false)).toBe(GestureType.THUMBS_UP);
+  });
+
+  it('holds a pinch through the gap between the enter and exit thresholds', () => {
+    const between = hand('pinch', { pinchGap: 0.38 });
+    expect(classifyGesture(between, false)).toBe(GestureType.OPEN);
+    expect(classifyGesture(between, true)).toBe(GestureType.PINCH);
+    expect(classifyGesture(hand('pinch', { pinchGap: 0.5 }), true)).toBe(GestureType.OPEN);
+  });
+});
+
+describe('createGesturePipeline', () => {
+  it('starts a gesture once it wins the vote and has been held long enough', () => {
+    const pipeline = createGesturePipeline();
+    const events = run(pipeline, 0, 400, () => hand('open'));
+    const start = events.find((e) => e.phase === 'start');
+    // The third frame (66 ms) wins the vote, then OPEN must hold for 120 ms
+    expect(start).toMatchObject({ gesture: GestureType.OPEN, timestamp: 198 });
+    expect(events.filter((e) => e.phase === 'start')).toHaveLength(1);
+    expect(events.filter((e) => e.timestamp > 198).every((e) => e.phase === 'hold')).toBe(true);
+  });
+
+  it('ignores a single misclassified frame', () => {
+    const pipeline = createGesturePipeline();
+    run(pipeline, 0, 400, () => hand('open'));
+    const events = run(pipeline, 400, 800, (t) => hand(t === 499 ? 'fist' : 'open'));
+    expect(transitions(events)).toEqual([]);
+  });
+
+  it('switches gestures with an end before the next start', () => {
+    const pipeline = createGesturePipeline();
+    const events = run(pipeline, 0, 1000, (t) => hand(t < 400 ? 'open' : 'fist'));
+    expect(transitions(events)).toEqual([
+      `start ${GestureType.OPEN}`,
+      `end ${GestureType.OPEN}`,
+      `start ${GestureType.FIST}`,
+    ]);
+  });
+
+  it('ends the gesture when the hand leaves the frame', () => {
+    const pipeline = createGesturePipeline();
+    const events = run(pipeline, 0, 1000, (t) => (t < 400 ? hand('pinch') : null));
+    expect(transitions(events)).toEqual([`start ${GestureType.PINCH}`, `end ${GestureType.PINCH}`]);
+  });
+
+  it('detects a horizontal swipe and ends it after the cooldown', () => {
+    const pipeline = createGesturePipeline();
+    run(pipeline, 0, 400, () => hand('open', { x: 0.3 }));
+    // 0.3 image widths in about 200 ms; image +x is screen left
+    const events = run(pipeline, 400, 1200, (t) => hand('open', { x: 0.3 + Math.min(0.3, ((t - 400) / 200) * 0.3) }));
+    const swipes = events.filter((e) => e.gesture === GestureType.SWIPE_LEFT);
+    expect(swipes.map((e) => e.phase)).toEqual(['start', 'end']);
+    expect(swipes[1].duration).toBeGreaterThanOrEqual(DEFAULT_GESTURE_PIPELINE_CONFIG.swipeCooldownMs);
+  });
+
+  it('does not swipe while pinching', () => {
+    const pipeline = createGesturePipeline();
+    run(pipeline, 0, 400, () => hand('pinch', { x: 0.3 }));
+    const events = run(pipeline, 400, 1200, (t) => hand('pinch', { x: 0.3 + Math.min(0.3, ((t - 400) / 200) * 0.3) }));
+    expect(events.some((e) => e.gesture === GestureType.SWIPE_LEFT || e.gesture === GestureType.SWIPE_RIGHT)).toBe(false);
+  });
+
+  it('tracks the index fingertip only while pointing', () => {
+    const pipeline = createGesturePipeline();
+    let frame = pipeline.process(hand('open'), 0);
+    for (let t = FRAME_MS; t < 400; t += FRAME_MS) frame = pipeline.process(hand('open'), t);
+    expect(frame.pointer).toBeNull();
+    for (let t = 400; t < 800; t += FRAME_MS) frame = pipeline.process(hand('point'), t);
+    expect(frame.gesture).toBe(GestureType.POINT);
+    expect(frame.pointer?.y).toBeCloseTo(hand('point')[8].y, 3);
+  });
+
+  it('forgets everything on reset', () => {
+    const pipeline = createGesturePipeline();
+    run(pipeline, 0, 400, () => hand('open'));
+    pipeline.reset();
+    expect(pipeline.process(hand('open'), 400).gesture).toBe(GestureType.NONE);
+  });
+});
+
+describe('OneEuroFilter', () => {
+  const config = DEFAULT_GESTURE_PIPELINE_CONFIG.filter;
+
+  it('passes the first value through and holds a constant one', () => {
+    const filter = new OneEuroFilter(config);
+    expect(filter.filter(0.4, 0)).toBe(0.4);
+    expect(filter.filter(0.4, 33)).toBe(0.4);
+  });
+
+  it('smooths jitter around a resting value', () => {
+    const filter = new OneEuroFilter(config);
+    let spread = 0;
+    for (let i = 0; i < 60; i++) {
+      const value = filter.filter(0.5 + (i % 2 === 0 ? 0.01 : -0.01), i * FRAME_MS);
+      if (i > 10) spread = Math.max(spread, Math.abs(value - 0.5));
+    }
+    expect(spread).toBeLessThan(0.005);
+  });
+
+  it('lags less on fast moves the higher beta is', () => {
+    const lag = (beta: number) => {
+      const filter = new OneEuroFilter({ ...config, beta });
+      let value = 0;
+      for (let i = 0; i <= 10; i++) value = filter.filter(i * 0.05, i * FRAME_MS);
+      return 0.5 - value;
+    };
+    expect(lag(1)).toBeLessThan(lag(0));
+  });
+
+  it('starts over from the next value after a reset', () => {
+    const filter = new OneEuroFilter(config);
+    filter.filter(0.1, 0);
+    filter.filter(0.1, 33);
+    filter.reset();
+    expect(filter.filter(0.9, 66)).toBe(0.9);
+  });
+});
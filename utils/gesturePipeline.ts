@@ -0,0 +1,338 @@
+import { GestureEvent, GestureType, HandLandmark } from '../types';
+
+// Pure, frame-by-frame gesture pipeline: raw landmarks in, stable gestures and filtered palm position out.
+// It holds no references to the DOM or MediaPipe, so recorded landmark arrays can be fed straight through it.
+
+export interface OneEuroConfig {
+  minCutoff: number; // Hz, lower = smoother when the hand is still
+  beta: number;      // Speed coefficient, higher = less lag on fast moves
+  dCutoff: number;   // Hz, cutoff for the derivative
+}
+
+export interface GesturePipelineConfig {
+  // Pinch hysteresis on the thumb-index tip distance, in palm lengths (wrist to middle knuckle):
+  // enter below `pinchEnter`, only leave once above `pinchExit`
+  pinchEnter: number;
+  pinchExit: number;
+  // Finger bend (sum of the PIP and DIP joint angles, radians): straight below `extendedBend`, curled above `curledBend`
+  extendedBend: number;
+  curledBend: number;
+  // Swipe: palm travels `swipeDistance` (image widths) horizontally within `swipeWindowMs`;
+  // the swipe gesture then lasts `swipeCooldownMs`, during which no new swipe starts
+  swipeDistance: number;
+  swipeWindowMs: number;
+  swipeCooldownMs: number;
+  // N-of-M voting: a gesture must win `voteThreshold` of the last `voteWindow` frames
+  voteWindow: number;
+  voteThreshold: number;
+  // Minimum time (ms) a voted gesture must persist before it becomes the stable gesture
+  minHoldMs: Record<GestureType, number>;
+  filter: OneEuroConfig;
+}
+
+export const DEFAULT_GESTURE_PIPELINE_CONFIG: GesturePipelineConfig = {
+  pinchEnter: 0.3,
+  pinchExit: 0.45,
+  extendedBend: 0.9,
+  curledBend: 1.7,
+  swipeDistance: 0.2,
+  swipeWindowMs: 300,
+  swipeCooldownMs: 400,
+  voteWindow: 5,
+  voteThreshold: 3,
+  minHoldMs: {
+    [GestureType.NONE]: 150,
+    [GestureType.FIST]: 120,
+    [GestureType.OPEN]: 120,
+    [GestureType.PINCH]: 80,
+    [GestureType.POINT]: 120,
+    [GestureType.THUMBS_UP]: 250, // Confirms, so it has to be deliberate
+    // Motion and two-hand gestures are not voted on; they are detected from movement
+    [GestureType.ZOOM]: 0,
+    [GestureType.ROTATE]: 0,
+    [GestureType.SWIPE_LEFT]: 0,
+    [GestureType.SWIPE_RIGHT]: 0,
+  },
+  filter: { minCutoff: 1.0, beta: 0.05, dCutoff: 1.0 },
+};
+
+export interface GestureFrame {
+  gesture: GestureType;                // Stable (debounced) gesture
+  rawGesture: GestureType;             // Per-frame classification, before voting
+  palm: { x: number; y: number } | null; // Filtered palm centre in MediaPipe image space (0 to 1)
+  pointer: { x: number; y: number } | null; // Filtered index fingertip while POINTing
+  events: GestureEvent[];
+}
+
+export interface GesturePipeline {
+  process: (landmarks: HandLandmark[] | null, timestamp: number) => GestureFrame;
+  reset: () => void;
+}
+
+export function createGesturePipeline(overrides: Partial<GesturePipelineConfig> = {}): GesturePipeline {
+  const config: GesturePipelineConfig = {
+    ...DEFAULT_GESTURE_PIPELINE_CONFIG,
+    ...overrides,
+    minHoldMs: { ...DEFAULT_GESTURE_PIPELINE_CONFIG.minHoldMs, ...overrides.minHoldMs },
+    filter: { ...DEFAULT_GESTURE_PIPELINE_CONFIG.filter, ...overrides.filter },
+  };
+
+  const filterX = new OneEuroFilter(config.filter);
+  const filterY = new OneEuroFilter(config.filter);
+  const tipFilterX = new OneEuroFilter(config.filter);
+  const tipFilterY = new OneEuroFilter(config.filter);
+  let palmTrail: { x: number; y: number; t: number }[] = [];
+  let swipe: { gesture: GestureType; since: number } | null = null;
+  let votes: GestureType[] = [];
+  let lastRaw = GestureType.NONE;
+  let stable = GestureType.NONE;
+  let stableSince = 0;
+  let pending: { gesture: GestureType; since: number } | null = null;
+
+  const reset = () => {
+    filterX.reset();
+    filterY.reset();
+    tipFilterX.reset();
+    tipFilterY.reset();
+    palmTrail = [];
+    swipe = null;
+    votes = [];
+    lastRaw = GestureType.NONE;
+    stable = GestureType.NONE;
+    stableSince = 0;
+    pending = null;
+  };
+
+  const process = (landmarks: HandLandmark[] | null, timestamp: number): GestureFrame => {
+    const events: GestureEvent[] = [];
+    let palm: GestureFrame['palm'] = null;
+
+    // 1. Classify this frame (with pinch hysteresis) and smooth the palm position
+    let raw = GestureType.NONE;
+    if (landmarks) {
+      raw = classifyGesture(landmarks, lastRaw === GestureType.PINCH, config);
+      // Landmarks: 0 (Wrist), 9 (Middle MCP)
+      const { x: palmX, y: palmY } = measureHand(landmarks).palm;
+      palm = { x: filterX.filter(palmX, timestamp), y: filterY.filter(palmY, timestamp) };
+      palmTrail.push({ x: palmX, y: palmY, t: timestamp });
+    } else {
+      // Don't let the filter glide from where the hand disappeared to where it reappears
+      filterX.reset();
+      filterY.reset();
+      palmTrail = [];
+    }
+    lastRaw = raw;
+    palmTrail = palmTrail.filter((p) => timestamp - p.t <= config.swipeWindowMs);
+
+    // Swipes are motion, not a pose: they run alongside the stable gesture and end after a cooldown
+    if (swipe && timestamp - swipe.since >= config.swipeCooldownMs) {
+      events.push({ phase: 'end', gesture: swipe.gesture, timestamp, duration: timestamp - swipe.since });
+      swipe = null;
+    }
+    const swiped = swipe || stable === GestureType.PINCH || stable === GestureType.FIST ? null : detectSwipe(palmTrail, config);
+    if (swiped) {
+      swipe = { gesture: swiped, since: timestamp };
+      palmTrail = [];
+      events.push({ phase: 'start', gesture: swiped, timestamp, duration: 0 });
+    }
+
+    // 2. N-of-M vote; without a majority, keep whatever is currently stable
+    votes.push(raw);
+    if (votes.length > config.voteWindow) votes.shift();
+    const voted = majority(votes, config.voteThreshold) ?? stable;
+
+    // Index fingertip (8) while the stable gesture is POINT
+    const trackPointer = (): GestureFrame['pointer'] => {
+      if (!landmarks || stable !== GestureType.POINT) {
+        tipFilterX.reset();
+        tipFilterY.reset();
+        return null;
+      }
+      return { x: tipFilterX.filter(landmarks[8].x, timestamp), y: tipFilterY.filter(landmarks[8].y, timestamp) };
+    };
+
+    // 3. Minimum hold before the voted gesture replaces the stable one
+    if (voted === stable) {
+      pending = null;
+    } else {
+      if (!pending || pending.gesture !== voted) pending = { gesture: voted, since: timestamp };
+      if (timestamp - pending.since >= config.minHoldMs[voted]) {
+        if (stable !== GestureType.NONE) {
+          events.push({ phase: 'end', gesture: stable, timestamp, duration: timestamp - stableSince });
+        }
+        stable = voted;
+        stableSince = timestamp;
+        pending = null;
+        if (stable !== GestureType.NONE) {
+          events.push({ phase: 'start', gesture: stable, timestamp, duration: 0 });
+        }
+        return { gesture: stable, rawGesture: raw, palm, pointer: trackPointer(), events };
+      }
+    }
+
+    if (stable !== GestureType.NONE) {
+      events.push({ phase: 'hold', gesture: stable, timestamp, duration: timestamp - stableSince });
+    }
+
+    return { gesture: stable, rawGesture: raw, palm, pointer: trackPointer(), events };
+  };
+
+  return { process, reset };
+}
+
+// Pose measurements that gesture classification (and calibration) is based on
+export interface HandMeasurements {
+  palm: { x: number; y: number }; // Palm centre in image space (0 to 1)
+  palmLength: number;    // Wrist to middle knuckle, image units
+  fingerBends: number[]; // Index, middle, ring, pinky: sum of PIP and DIP joint angles (radians)
+  thumbBend: number;     // Angle at the thumb's IP joint
+  thumbReach: number;    // Thumb tip to index knuckle, in palm lengths
+  thumbLift: number;     // How far the thumb tip is above its MCP, in palm lengths (negative = below)
+  thumbVertical: boolean; // Thumb points more up / down than sideways in the image
+  pinchDistance: number; // Thumb tip to index tip, in palm lengths
+}
+
+// Finger states come from 3D joint angles and distances are measured in palm lengths,
+// so they don't depend on the hand's rotation or distance from the camera
+export function measureHand(landmarks: HandLandmark[]): HandMeasurements {
+  // Landmarks: 0 Wrist; thumb 1-4 (CMC, MCP, IP, Tip);
+  // index 5-8, middle 9-12, ring 13-16, pinky 17-20 (MCP, PIP, DIP, Tip)
+  const palmLength = Math.max(1e-6, distance(landmarks[0], landmarks[9]));
+  const fingerBend = (mcp: number) =>
+    jointAngle(landmarks[mcp], landmarks[mcp + 1], landmarks[mcp + 2])
+    + jointAngle(landmarks[mcp + 1], landmarks[mcp + 2], landmarks[mcp + 3]);
+
+  return {
+    palm: { x: (landmarks[0].x + landmarks[9].x) / 2, y: (landmarks[0].y + landmarks[9].y) / 2 },
+    palmLength,
+    fingerBends: [5, 9, 13, 17].map(fingerBend),
+    thumbBend: jointAngle(landmarks[2], landmarks[3], landmarks[4]),
+    thumbReach: distance(landmarks[4], landmarks[5]) / palmLength,
+    // Y increases downwards
+    thumbLift: (landmarks[2].y - landmarks[4].y) / palmLength,
+    thumbVertical: Math.abs(landmarks[4].y - landmarks[2].y) > Math.abs(landmarks[4].x - landmarks[2].x),
+    pinchDistance: distance(landmarks[4], landmarks[8]) / palmLength,
+  };
+}
+
+// Single-frame gesture classification
+export function classifyGesture(
+  landmarks: HandLandmark[],
+  wasPinching: boolean,
+  config: Pick<GesturePipelineConfig, 'pinchEnter' | 'pinchExit' | 'extendedBend' | 'curledBend'> = DEFAULT_GESTURE_PIPELINE_CONFIG
+): GestureType {
+  const { fingerBends, thumbBend, thumbReach, thumbLift, thumbVertical, pinchDistance } = measureHand(landmarks);
+  const [indexOpen, middleOpen, ringOpen, pinkyOpen] = fingerBends.map((bend) => bend < config.extendedBend);
+  const [indexCurled, middleCurled, ringCurled, pinkyCurled] = fingerBends.map((bend) => bend > config.curledBend);
+  const othersCurled = middleCurled && ringCurled && pinkyCurled;
+
+  // Thumb: straight, away from the index knuckle, and pointing up in the image
+  const thumbStraight = thumbBend < config.extendedBend / 2;
+  const thumbOut = thumbReach > 0.4;
+  const thumbUp = thumbLift > 0.5 && thumbVertical;
+
+  // THUMBS_UP: fist with the thumb standing up
+  if (indexCurled && othersCurled && thumbStraight && thumbOut && thumbUp) {
+    return GestureType.THUMBS_UP;
+  }
+
+  // FIST: All fingers closed
+  if (indexCurled && othersCurled) {
+    return GestureType.FIST;
+  }
+
+  // PINCH: Thumb and Index close together (looser threshold to stay pinched than to start)
+  if (pinchDistance < (wasPinching ? config.pinchExit : config.pinchEnter)) {
+    return GestureType.PINCH;
+  }
+
+  // POINT: only the index finger out
+  if (indexOpen && othersCurled) {
+    return GestureType.POINT;
+  }
+
+  // OPEN: At least 3 fingers open
+  if ((indexOpen && middleOpen && ringOpen) || (middleOpen && ringOpen && pinkyOpen)) {
+    return GestureType.OPEN;
+  }
+
+  return GestureType.NONE;
+}
+
+// Horizontal palm travel across the trail; the webcam image is mirrored, so image +x is screen left
+function detectSwipe(
+  trail: { x: number; y: number }[],
+  config: Pick<GesturePipelineConfig, 'swipeDistance'>
+): GestureType | null {
+  if (trail.length < 2) return null;
+  const first = trail[0];
+  const last = trail[trail.length - 1];
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  if (Math.abs(dx) < config.swipeDistance || Math.abs(dy) > Math.abs(dx) * 0.5) return null;
+  return dx > 0 ? GestureType.SWIPE_LEFT : GestureType.SWIPE_RIGHT;
+}
+
+function distance(a: HandLandmark, b: HandLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+// Bend at `joint` in radians: 0 when a, joint and b are in a straight line
+function jointAngle(a: HandLandmark, joint: HandLandmark, b: HandLandmark): number {
+  const u = [joint.x - a.x, joint.y - a.y, joint.z - a.z];
+  const v = [b.x - joint.x, b.y - joint.y, b.z - joint.z];
+  const lengths = Math.hypot(u[0], u[1], u[2]) * Math.hypot(v[0], v[1], v[2]);
+  if (lengths === 0) return 0;
+  const cos = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / lengths;
+  return Math.acos(Math.min(1, Math.max(-1, cos)));
+}
+
+function majority(votes: GestureType[], threshold: number): GestureType | null {
+  const counts = new Map<GestureType, number>();
+  for (const vote of votes) {
+    const count = (counts.get(vote) ?? 0) + 1;
+    if (count >= threshold) return vote;
+    counts.set(vote, count);
+  }
+  return null;
+}
+
+// One-Euro filter (Casiez et al. 2012): adaptive low-pass that trades jitter for lag based on speed
+export class OneEuroFilter {
+  private prevValue: number | null = null;
+  private prevDerivative = 0;
+  private prevTimestamp = 0;
+
+  constructor(private config: OneEuroConfig) {}
+
+  filter(value: number, timestamp: number): number {
+    if (this.prevValue === null) {
+      this.prevValue = value;
+      this.prevTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.prevTimestamp) / 1000;
+    this.prevTimestamp = timestamp;
+    if (dt <= 0) return this.prevValue;
+
+    const derivative = (value - this.prevValue) / dt;
+    const dAlpha = smoothingFactor(dt, this.config.dCutoff);
+    this.prevDerivative = dAlpha * derivative + (1 - dAlpha) * this.prevDerivative;
+
+    const cutoff = this.config.minCutoff + this.config.beta * Math.abs(this.prevDerivative);
+    const alpha = smoothingFactor(dt, cutoff);
+    this.prevValue = alpha * value + (1 - alpha) * this.prevValue;
+    return this.prevValue;
+  }
+
+  reset() {
+    this.prevValue = null;
+    this.prevDerivative = 0;
+  }
+}
+
+function smoothingFactor(dt: number, cutoff: number): number {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+}
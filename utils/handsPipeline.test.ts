@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { GestureEvent, GestureType } from '../types';
+import { createHandsPipeline, HandsFrame, isSelectingEvent } from './handsPipeline';
+import { toHandTrackingResult } from './landmarkRecording';
+import { FrameHand, recordedFrames } from './syntheticHands';
+
+// Runs the frames through a fresh pipeline; returns the last frame and every event
+function run(hands: (t: number) => FrameHand[], to: number): { last: HandsFrame; events: GestureEvent[] } {
+  const pipeline = createHandsPipeline();
+  const events: GestureEvent[] = [];
+  let last: HandsFrame | null = null;
+  for (const frame of recordedFrames(0, to, hands)) {
+    last = pipeline.process(toHandTrackingResult(frame));
+    events.push(...last.events);
+  }
+  return { last: last!, events };
+}
+
+// Both hands pinch still for 400 ms, then move apart symmetrically about x = 0.5
+const pinchingApart = (spread: (t: number) => number, dy: (t: number) => number = () => 0) => (t: number): FrameHand[] => {
+  const moving = Math.max(0, t - 400);
+  const half = spread(moving);
+  return [
+    { label: 'Left', pose: 'pinch', options: { x: 0.5 + half, y: 0.5 + dy(moving) } },
+    { label: 'Right', pose: 'pinch', options: { x: 0.5 - half, y: 0.5 - dy(moving) } },
+  ];
+};
+
+describe('createHandsPipeline', () => {
+  it('gives a single hand both roles', () => {
+    const { last } = run(() => [{ label: 'Left', pose: 'open' }], 400);
+    expect(last.hands).toEqual([{ label: 'Left', role: 'both', gesture: GestureType.OPEN }]);
+    expect(last.steer).not.toBeNull();
+    expect(last.select).toEqual(last.steer);
+  });
+
+  it('lets the right hand select and the left hand steer', () => {
+    const { last, events } = run(() => [
+      { label: 'Left', pose: 'fist', options: { x: 0.7 } },
+      { label: 'Right', pose: 'open', options: { x: 0.3 } },
+    ], 400);
+    expect(last.hands).toEqual([
+      { label: 'Left', role: 'steer', gesture: GestureType.FIST },
+      { label: 'Right', role: 'select', gesture: GestureType.OPEN },
+    ]);
+    const starts = events.filter((e) => e.phase === 'start');
+    expect(starts.filter(isSelectingEvent).map((e) => e.gesture)).toEqual([GestureType.OPEN]);
+  });
+
+  it('splits two hands given the same label by their place in the image', () => {
+    const { last } = run(() => [
+      { label: 'Right', pose: 'open', options: { x: 0.7 } },
+      { label: 'Right', pose: 'fist', options: { x: 0.3 } },
+    ], 400);
+    // Un-mirrored image: the person's right hand is on the left
+    expect(last.hands).toEqual([
+      { label: 'Left', role: 'steer', gesture: GestureType.OPEN },
+      { label: 'Right', role: 'select', gesture: GestureType.FIST },
+    ]);
+  });
+
+  it('zooms when both pinching hands spread apart', () => {
+    const { last, events } = run(pinchingApart((moving) => 0.1 + Math.min(0.1, moving / 3000)), 1000);
+    const zoom = events.filter((e) => e.gesture === GestureType.ZOOM);
+    expect(zoom[0]?.phase).toBe('start');
+    expect(zoom.every((e) => e.hand === undefined)).toBe(true);
+    expect(last.twoHand?.gesture).toBe(GestureType.ZOOM);
+    expect(last.twoHand!.zoom).toBeGreaterThan(1);
+    expect(events.some((e) => e.gesture === GestureType.ROTATE)).toBe(false);
+  });
+
+  it('rotates when both pinching hands turn like a steering wheel', () => {
+    // The hands circle their midpoint, keeping their distance
+    const turn = (moving: number) => Math.min(0.8, moving / 400);
+    const { last, events } = run(pinchingApart((moving) => 0.1 * Math.cos(turn(moving)), (moving) => 0.1 * Math.sin(turn(moving))), 1000);
+    expect(events.find((e) => e.phase === 'start' && (e.gesture === GestureType.ZOOM || e.gesture === GestureType.ROTATE))?.gesture)
+      .toBe(GestureType.ROTATE);
+    expect(last.twoHand?.gesture).toBe(GestureType.ROTATE);
+    expect(Math.abs(last.twoHand!.rotation)).toBeGreaterThan(0.3);
+  });
+
+  it('stays unlocked while the pinching hands hold still', () => {
+    const { last, events } = run(pinchingApart(() => 0.1), 1000);
+    expect(last.twoHand).toEqual({ gesture: GestureType.NONE, zoom: 1, rotation: 0 });
+    expect(events.some((e) => e.gesture === GestureType.ZOOM || e.gesture === GestureType.ROTATE)).toBe(false);
+  });
+
+  it('ends a two-hand gesture when a hand stops pinching', () => {
+    const spread = pinchingApart((moving) => 0.1 + Math.min(0.1, moving / 3000));
+    const { last, events } = run((t) => (t < 1000 ? spread(t) : [spread(t)[0]]), 1400);
+    const zoom = events.filter((e) => e.gesture === GestureType.ZOOM && e.phase !== 'hold');
+    expect(zoom.map((e) => e.phase)).toEqual(['start', 'end']);
+    expect(last.twoHand).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { GestureEvent, GestureType, Handedness, HandRole, HandStatus, HandTrackingResult, TwoHandState } from '../types';
+import { createGesturePipeline, DEFAULT_GESTURE_PIPELINE_CONFIG, GesturePipeline, GesturePipelineConfig } from './gesturePipeline';
+
+// Two-hand layer on top of the per-hand gesture pipeline: keeps one pipeline per handedness,
+// assigns steer / select roles and recognizes two-hand ZOOM / ROTATE. Pure, like gesturePipeline.ts.
+
+type HandLabel = Handedness['label'];
+type Palm = { x: number; y: number };
+
+export interface HandsPipelineConfig extends GesturePipelineConfig {
+  selectHand: HandLabel; // With two hands visible this one selects, the other steers
+  // Both hands pinching lock into ZOOM once |ln(distance ratio)| passes zoomThreshold,
+  // or into ROTATE once the line between the palms turns by rotateThreshold radians
+  zoomThreshold: number;
+  rotateThreshold: number;
+}
+
+export const DEFAULT_HANDS_PIPELINE_CONFIG: HandsPipelineConfig = {
+  ...DEFAULT_GESTURE_PIPELINE_CONFIG,
+  selectHand: 'Right',
+  zoomThreshold: 0.15,
+  rotateThreshold: 0.25,
+};
+
+export interface HandsFrame {
+  hands: HandStatus[];
+  steer: Palm | null;  // Filtered palm of the steering hand (camera movement)
+  select: Palm | null; // Filtered palm of the selecting hand, or its index fingertip while POINTing (hand cursor)
+  twoHand: TwoHandState | null; // Set while both hands pinch
+  events: GestureEvent[];
+}
+
+export interface HandsPipeline {
+  process: (result: HandTrackingResult) => HandsFrame;
+  reset: () => void;
+}
+
+export function createHandsPipeline(overrides: Partial<HandsPipelineConfig> = {}): HandsPipeline {
+  const config: HandsPipelineConfig = { ...DEFAULT_HANDS_PIPELINE_CONFIG, ...overrides };
+  const pipelines: Record<HandLabel, GesturePipeline> = {
+    Left: createGesturePipeline(overrides),
+    Right: createGesturePipeline(overrides),
+  };
+  let engaged: { distance: number; angle: number; gesture: GestureType; since: number } | null = null;
+
+  const reset = () => {
+    pipelines.Left.reset();
+    pipelines.Right.reset();
+    engaged = null;
+  };
+
+  const process = (result: HandTrackingResult): HandsFrame => {
+    const { timestamp } = result;
+    const byLabel = labelHands(result);
+    const visible = (['Left', 'Right'] as const).filter((label) => byLabel[label]);
+    const roleOf = (label: HandLabel): HandRole =>
+      visible.length < 2 ? 'both' : label === config.selectHand ? 'select' : 'steer';
+
+    // 1. Per-hand gestures; hidden hands are still processed so their gestures end cleanly
+    const frames = {
+      Left: pipelines.Left.process(byLabel.Left, timestamp),
+      Right: pipelines.Right.process(byLabel.Right, timestamp),
+    };
+    const events: GestureEvent[] = [];
+    for (const label of ['Left', 'Right'] as const) {
+      const role = roleOf(label);
+      events.push(...frames[label].events.map((event) => ({ ...event, hand: label, role })));
+    }
+
+    const hands: HandStatus[] = visible.map((label) => ({ label, role: roleOf(label), gesture: frames[label].gesture }));
+    const handFor = (role: 'steer' | 'select') => hands.find((h) => h.role === role || h.role === 'both');
+    const steerHand = handFor('steer');
+    const selectHand = handFor('select');
+
+    // 2. Two-hand gestures: both hands pinching, then spread / squeeze or turn
+    const left = frames.Left.palm;
+    const right = frames.Right.palm;
+    let twoHand: TwoHandState | null = null;
+    const bothPinching = left && right
+      && frames.Left.gesture === GestureType.PINCH && frames.Right.gesture === GestureType.PINCH;
+
+    if (bothPinching) {
+      const distance = Math.max(1e-6, Math.hypot(right.x - left.x, right.y - left.y));
+      // Screen space: the webcam image is mirrored and its y grows downwards
+      const angle = Math.atan2(left.y - right.y, left.x - right.x);
+      if (!engaged) engaged = { distance, angle, gesture: GestureType.NONE, since: timestamp };
+
+      const zoom = distance / engaged.distance;
+      const rotation = wrapAngle(angle - engaged.angle);
+      if (engaged.gesture === GestureType.NONE) {
+        // Whichever movement is further past its threshold wins, so a turn that also changes distance stays a turn
+        const zoomScore = Math.abs(Math.log(zoom)) / config.zoomThreshold;
+        const rotateScore = Math.abs(rotation) / config.rotateThreshold;
+        const locked = Math.max(zoomScore, rotateScore) <= 1 ? GestureType.NONE
+          : zoomScore >= rotateScore ? GestureType.ZOOM
+          : GestureType.ROTATE;
+        if (locked !== GestureType.NONE) {
+          // Measure from the lock-in point so the camera doesn't jump by the threshold
+          engaged = { distance, angle, gesture: locked, since: timestamp };
+          events.push({ phase: 'start', gesture: locked, timestamp, duration: 0 });
+        }
+        twoHand = { gesture: engaged.gesture, zoom: 1, rotation: 0 };
+      } else {
+        events.push({ phase: 'hold', gesture: engaged.gesture, timestamp, duration: timestamp - engaged.since });
+        twoHand = { gesture: engaged.gesture, zoom, rotation };
+      }
+    } else if (engaged) {
+      if (engaged.gesture !== GestureType.NONE) {
+        events.push({ phase: 'end', gesture: engaged.gesture, timestamp, duration: timestamp - engaged.since });
+      }
+      engaged = null;
+    }
+
+    return {
+      hands,
+      steer: steerHand ? frames[steerHand.label].palm : null,
+      select: selectHand ? frames[selectHand.label].pointer ?? frames[selectHand.label].palm : null,
+      twoHand,
+      events,
+    };
+  };
+
+  return { process, reset };
+}
+
+// Only a hand that selects may change the app state; the steering hand just moves the camera
+export function isSelectingEvent(event: GestureEvent): boolean {
+  return event.role !== 'steer';
+}
+
+// Landmarks per handedness. If the model labels both hands the same, they are split by image position
+// (in the un-mirrored webcam image the person's right hand is on the left).
+function labelHands(result: HandTrackingResult): Record<HandLabel, HandTrackingResult['multiHandLandmarks'][number] | null> {
+  const hands = result.multiHandLandmarks.slice(0, 2).map((landmarks, i) => ({
+    landmarks,
+    label: result.multiHandedness[i]?.label ?? 'Right',
+  }));
+  if (hands.length === 2 && hands[0].label === hands[1].label) {
+    hands.sort((a, b) => a.landmarks[0].x - b.landmarks[0].x);
+    hands[0].label = 'Right';
+    hands[1].label = 'Left';
+  }
+  return {
+    Left: hands.find((h) => h.label === 'Left')?.landmarks ?? null,
+    Right: hands.find((h) => h.label === 'Right')?.landmarks ?? null,
+  };
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
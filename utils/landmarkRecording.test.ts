@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, GestureType } from '../types';
+import {
+  LANDMARK_RECORDING_VERSION,
+  LandmarkRecording,
+  parseLandmarkRecording,
+  replayAppStates,
+  replayGestureEvents,
+} from './landmarkRecording';
+import { DEFAULT_GESTURE_PIPELINE_CONFIG } from './gesturePipeline';
+import { FrameHand, HandPose, recordedFrames } from './syntheticHands';
+
+// One hand holding each pose for 500 ms in turn
+function recording(poses: HandPose[], hands: (pose: HandPose) => FrameHand[] = (pose) => [{ label: 'Right', pose }]): LandmarkRecording {
+  return {
+    version: LANDMARK_RECORDING_VERSION,
+    createdAt: '2025-12-24T18:00:00.000Z',
+    frames: poses.flatMap((pose, i) => recordedFrames(i * 500, (i + 1) * 500, () => hands(pose))),
+  };
+}
+
+describe('parseLandmarkRecording', () => {
+  it('reads back a saved recording', () => {
+    const saved = recording(['open', 'fist']);
+    expect(parseLandmarkRecording(JSON.stringify(saved))).toEqual(saved);
+  });
+
+  it('rejects malformed files with a readable message', () => {
+    expect(() => parseLandmarkRecording('{')).toThrow('Recording is not valid JSON');
+    expect(() => parseLandmarkRecording('{"version":99,"frames":[]}')).toThrow('Unsupported recording version: 99');
+    expect(() => parseLandmarkRecording(`{"version":${LANDMARK_RECORDING_VERSION}}`)).toThrow('Recording has no frames');
+    const truncated = recording(['open']);
+    truncated.frames[3].multiHandLandmarks[0] = truncated.frames[3].multiHandLandmarks[0].slice(0, 20);
+    expect(() => parseLandmarkRecording(JSON.stringify(truncated))).toThrow('Recording frame 3 is malformed');
+  });
+});
+
+describe('replayGestureEvents', () => {
+  it('replays the gesture sequence of a recording', () => {
+    const events = replayGestureEvents(recording(['open', 'pinch', 'fist']));
+    expect(events.filter((e) => e.phase !== 'hold').map((e) => `${e.phase} ${e.gesture}`)).toEqual([
+      `start ${GestureType.OPEN}`,
+      `end ${GestureType.OPEN}`,
+      `start ${GestureType.PINCH}`,
+      `end ${GestureType.PINCH}`,
+      `start ${GestureType.FIST}`,
+    ]);
+    expect(events.every((e) => e.hand === 'Right' && e.role === 'both')).toBe(true);
+  });
+
+  it('is deterministic', () => {
+    const session = recording(['open', 'thumbs-up', 'point']);
+    expect(replayGestureEvents(session)).toEqual(replayGestureEvents(session));
+  });
+
+  it('applies the pipeline config', () => {
+    // A hold longer than the recording never lets a gesture start
+    const events = replayGestureEvents(recording(['open']), {
+      minHoldMs: { ...DEFAULT_GESTURE_PIPELINE_CONFIG.minHoldMs, [GestureType.OPEN]: 1000 },
+    });
+    expect(events).toEqual([]);
+  });
+});
+
+describe('replayAppStates', () => {
+  it('scatters, focuses and gathers the tree again', () => {
+    expect(replayAppStates(recording(['open', 'pinch', 'fist']))).toEqual([
+      AppState.TREE,
+      AppState.SCATTER,
+      AppState.FOCUS,
+      AppState.TREE,
+    ]);
+  });
+
+  it('stays scattered when a pinch has no photo to focus', () => {
+    expect(replayAppStates(recording(['open', 'pinch']), { pinchTarget: null })).toEqual([AppState.TREE, AppState.SCATTER]);
+  });
+
+  it('ignores gestures of the steering hand', () => {
+    // The left hand steers while the right one is visible; only the right hand's gestures change the state
+    const session = recording(['open', 'fist'], (pose) => [
+      { label: 'Left', pose, options: { x: 0.7 } },
+      { label: 'Right', pose: 'point', options: { x: 0.3 } },
+    ]);
+    expect(replayAppStates(session)).toEqual([AppState.TREE]);
+  });
+});
@@ -0,0 +1,116 @@
+import { AppState, GestureEvent, HandLandmark, Handedness, HandTrackingResult } from '../types';
+import { createHandsPipeline, HandsPipelineConfig, isSelectingEvent } from './handsPipeline';
+import { AppTransition, DEFAULT_APP_TRANSITIONS, INITIAL_APP_MACHINE_STATE, transition } from './appStateMachine';
+import { isRecord } from './guards';
+
+// Recorded hand-tracking session, saved as JSON so gesture bugs can be replayed deterministically
+
+export const LANDMARK_RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  multiHandLandmarks: HandLandmark[][];
+  multiHandedness: Handedness[];
+}
+
+export interface LandmarkRecording {
+  version: number;
+  createdAt: string;
+  frames: RecordedFrame[];
+}
+
+export function toHandTrackingResult(frame: RecordedFrame): HandTrackingResult {
+  return {
+    multiHandLandmarks: frame.multiHandLandmarks,
+    multiHandedness: frame.multiHandedness,
+    timestamp: frame.t,
+  };
+}
+
+function isLandmark(value: unknown): value is HandLandmark {
+  return isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number';
+}
+
+function isHandLandmarks(value: unknown): value is HandLandmark[] {
+  return Array.isArray(value) && value.length === 21 && value.every(isLandmark);
+}
+
+function isHandedness(value: unknown): value is Handedness {
+  return isRecord(value) && (value.label === 'Left' || value.label === 'Right') && typeof value.score === 'number';
+}
+
+function isRecordedFrame(value: unknown): value is RecordedFrame {
+  return isRecord(value)
+    && typeof value.t === 'number'
+    && Array.isArray(value.multiHandLandmarks)
+    && value.multiHandLandmarks.every(isHandLandmarks)
+    && Array.isArray(value.multiHandedness)
+    && value.multiHandedness.every(isHandedness);
+}
+
+// Validates untrusted JSON (e.g. a user-selected file) and returns a typed recording
+export function parseLandmarkRecording(json: string): LandmarkRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.version !== LANDMARK_RECORDING_VERSION) {
+    const version = isRecord(data) ? data.version : undefined;
+    throw new Error(`Unsupported recording version: ${version ?? 'missing'}`);
+  }
+  const { frames } = data;
+  if (!Array.isArray(frames)) {
+    throw new Error('Recording has no frames');
+  }
+  frames.forEach((frame: unknown, i) => {
+    if (!isRecordedFrame(frame)) throw new Error(`Recording frame ${i} is malformed`);
+  });
+
+  return {
+    version: LANDMARK_RECORDING_VERSION,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    frames: frames as RecordedFrame[],
+  };
+}
+
+// Runs a recording through the gesture pipeline off-line and returns the events it produces,
+// so recorded sessions can be asserted against an expected gesture sequence
+export function replayGestureEvents(
+  recording: LandmarkRecording,
+  pipelineConfig?: Partial<HandsPipelineConfig>
+): GestureEvent[] {
+  const pipeline = createHandsPipeline(pipelineConfig);
+  const events: GestureEvent[] = [];
+  for (const frame of recording.frames) {
+    events.push(...pipeline.process(toHandTrackingResult(frame)).events);
+  }
+  return events;
+}
+
+// Feeds the gestures of a recording through the state machine and returns every AppState visited.
+// Recordings carry no scene, so PINCH / THUMBS_UP target `pinchTarget` instead of the photo under the cursor,
+// and swipes browse `photoCount` photos.
+export function replayAppStates(
+  recording: LandmarkRecording,
+  options: {
+    pipelineConfig?: Partial<HandsPipelineConfig>;
+    table?: AppTransition[];
+    pinchTarget?: number | null;
+    photoCount?: number;
+  } = {}
+): AppState[] {
+  const { pipelineConfig, table = DEFAULT_APP_TRANSITIONS, pinchTarget = 0, photoCount = 4 } = options;
+  let state = INITIAL_APP_MACHINE_STATE;
+  const visited = [state.appState];
+
+  for (const event of replayGestureEvents(recording, pipelineConfig)) {
+    if (event.phase !== 'start' || !isSelectingEvent(event)) continue;
+    const next = transition(state, { type: 'GESTURE', gesture: event.gesture, target: pinchTarget, photoCount }, table);
+    if (next.appState !== state.appState) visited.push(next.appState);
+    state = next;
+  }
+  return visited;
+}
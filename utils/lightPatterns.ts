@@ -0,0 +1,174 @@
+import { MAX_BPM, MIN_BPM } from './beatSync';
+
+// String-light pattern engine: each pattern maps a bulb (where it sits along its string, plus a random
+// phase) and the time to a brightness and optionally a hue. Pure, so patterns can be previewed or tested
+// without a scene; components/TreeLights.tsx turns the samples into bulb colours every frame.
+
+export interface LightBulb {
+  offset: number; // 0 to 1 along the string (bottom to top on the tree)
+  phase: number;  // 0 to 1, random per bulb
+}
+
+export interface LightSample {
+  brightness: number; // 0 to 1
+  hue: number | null; // 0 to 1 overrides the bulb's own colour; null keeps it
+}
+
+export interface LightPatternParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export type LightPatternParams = Record<string, number>;
+
+export interface LightPattern {
+  id: string;
+  label: string;
+  params: LightPatternParam[];
+  // Tempo-following patterns name their BPM parameter; they play on the beat clock (utils/beatSync.ts) once a
+  // beat is tapped or heard, with the time counted from a beat
+  tempoParam?: string;
+  // Writes into `out` rather than returning a sample, as it runs for every bulb every frame
+  sample: (bulb: LightBulb, time: number, params: LightPatternParams, out: LightSample) => void;
+}
+
+const fract = (x: number) => x - Math.floor(x);
+
+export const LIGHT_PATTERNS: LightPattern[] = [
+  {
+    id: 'chase',
+    label: 'Chase',
+    params: [
+      { key: 'speed', label: 'Speed', min: 0.05, max: 1, step: 0.05, default: 0.25 }, // Strings per second
+      { key: 'groups', label: 'Groups', min: 1, max: 12, step: 1, default: 5 },       // Lit runs along the string
+      { key: 'tail', label: 'Tail', min: 0.1, max: 0.9, step: 0.05, default: 0.4 },   // Share of each run that glows
+    ],
+    sample: (bulb, time, { speed, groups, tail }, out) => {
+      const position = fract(bulb.offset * groups - time * speed * groups);
+      out.brightness = position < tail ? 1 - position / tail : 0;
+      out.hue = null;
+    },
+  },
+  {
+    id: 'twinkle',
+    label: 'Twinkle',
+    params: [
+      { key: 'rate', label: 'Rate', min: 0.1, max: 3, step: 0.1, default: 0.8 },        // Twinkles per second
+      { key: 'sparkle', label: 'Sparkle', min: 1, max: 8, step: 0.5, default: 3 },      // Higher = shorter flashes
+    ],
+    sample: (bulb, time, { rate, sparkle }, out) => {
+      // Every bulb runs at its own speed and phase so the flashes never line up
+      const wave = 0.5 + 0.5 * Math.sin((time * rate * (0.6 + bulb.phase * 0.8) + bulb.phase) * Math.PI * 2);
+      out.brightness = 0.15 + 0.85 * Math.pow(wave, sparkle);
+      out.hue = null;
+    },
+  },
+  {
+    id: 'fade',
+    label: 'Fade',
+    params: [
+      { key: 'period', label: 'Period', min: 1, max: 10, step: 0.5, default: 4 }, // Seconds per breath
+      { key: 'depth', label: 'Depth', min: 0.1, max: 1, step: 0.05, default: 0.8 },
+    ],
+    sample: (bulb, time, { period, depth }, out) => {
+      // A slow breath rising up the string
+      const wave = 0.5 + 0.5 * Math.cos((time / period - bulb.offset * 0.25) * Math.PI * 2);
+      out.brightness = 1 - depth * wave;
+      out.hue = null;
+    },
+  },
+  {
+    id: 'rainbow',
+    label: 'Rainbow',
+    params: [
+      { key: 'speed', label: 'Speed', min: 0.02, max: 1, step: 0.02, default: 0.15 }, // Colour cycles per second
+      { key: 'spread', label: 'Spread', min: 0.25, max: 4, step: 0.25, default: 1 },  // Rainbows along the string
+    ],
+    sample: (bulb, time, { speed, spread }, out) => {
+      out.brightness = 1;
+      out.hue = fract(bulb.offset * spread - time * speed);
+    },
+  },
+  {
+    // Flashes on the beat: at the tempo set by hand until one is tapped along or heard on the microphone
+    id: 'pulse',
+    label: 'Pulse (BPM)',
+    tempoParam: 'bpm',
+    params: [
+      { key: 'bpm', label: 'BPM', min: MIN_BPM, max: MAX_BPM, step: 1, default: 120 },
+      { key: 'decay', label: 'Decay', min: 2, max: 20, step: 1, default: 8 }, // How fast a flash dies away
+    ],
+    sample: (bulb, time, { bpm, decay }, out) => {
+      const beats = (time * bpm) / 60;
+      const beat = Math.floor(beats);
+      // Half the bulbs take the odd beats, half the even ones; every fourth beat lights them all
+      const onBeat = beat % 4 === 0 || (beat % 2 === 0) === (bulb.phase < 0.5);
+      const sinceBeat = (fract(beats) * 60) / bpm;
+      out.brightness = onBeat ? 0.1 + 0.9 * Math.exp(-decay * sinceBeat) : 0.1;
+      out.hue = null;
+    },
+  },
+];
+
+export const DEFAULT_LIGHT_PATTERN = 'twinkle';
+
+export function lightPattern(id: string): LightPattern {
+  return LIGHT_PATTERNS.find((pattern) => pattern.id === id) ?? LIGHT_PATTERNS[0];
+}
+
+// Cycles through the patterns, e.g. on swipes in TREE
+export function nextLightPattern(id: string, step: number): string {
+  const index = Math.max(0, LIGHT_PATTERNS.findIndex((pattern) => pattern.id === id));
+  return LIGHT_PATTERNS[(index + step + LIGHT_PATTERNS.length) % LIGHT_PATTERNS.length].id;
+}
+
+export function defaultLightPatternParams(pattern: LightPattern): LightPatternParams {
+  return Object.fromEntries(pattern.params.map((param) => [param.key, param.default]));
+}
+
+export interface LightSettings {
+  enabled: boolean;
+  pattern: string;
+  params: Record<string, LightPatternParams>; // Per pattern, so switching back keeps its tuning
+}
+
+export const DEFAULT_LIGHT_SETTINGS: LightSettings = {
+  enabled: true,
+  pattern: DEFAULT_LIGHT_PATTERN,
+  params: Object.fromEntries(LIGHT_PATTERNS.map((pattern) => [pattern.id, defaultLightPatternParams(pattern)])),
+};
+
+// Sets every tempo-following pattern to a tapped or heard tempo, rounded to its slider
+export function withTempo(settings: LightSettings, bpm: number): LightSettings {
+  const params = { ...settings.params };
+  for (const pattern of LIGHT_PATTERNS) {
+    const param = pattern.params.find(({ key }) => key === pattern.tempoParam);
+    if (!param) continue;
+    const value = Math.min(param.max, Math.max(param.min, Math.round(bpm / param.step) * param.step));
+    params[pattern.id] = { ...params[pattern.id], [param.key]: value };
+  }
+  return { ...settings, params };
+}
+
+// Validates stored settings field by field; unknown patterns and out-of-range values fall back to the defaults
+export function sanitizeLightSettings(data: unknown): LightSettings {
+  const value = (data && typeof data === 'object' ? data : {}) as Partial<Record<keyof LightSettings, unknown>>;
+  const stored = (value.params && typeof value.params === 'object' ? value.params : {}) as Record<string, unknown>;
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : DEFAULT_LIGHT_SETTINGS.enabled,
+    pattern: LIGHT_PATTERNS.some((pattern) => pattern.id === value.pattern)
+      ? (value.pattern as string)
+      : DEFAULT_LIGHT_SETTINGS.pattern,
+    params: Object.fromEntries(LIGHT_PATTERNS.map((pattern) => {
+      const params = (stored[pattern.id] && typeof stored[pattern.id] === 'object' ? stored[pattern.id] : {}) as Record<string, unknown>;
+      return [pattern.id, Object.fromEntries(pattern.params.map(({ key, min, max, default: fallback }) => {
+        const v = params[key];
+        return [key, typeof v === 'number' && Number.isFinite(v) ? Math.min(max, Math.max(min, v)) : fallback];
+      }))];
+    })),
+  };
+}
@@ -0,0 +1,192 @@
+import { TreeDimensions } from '../types';
+import { createItemRandom, RandomFn } from './random';
+
+// Morph targets: named shapes the ornaments gather into. Every particle holds one position per target and
+// the scene moves each particle from one target to another. TREE always shows the 'tree' target; SCATTER
+// (and the background in FOCUS) shows the selected formation.
+
+export type Vec3 = [number, number, number];
+
+export interface MorphContext {
+  tree: TreeDimensions;
+  scatterRadius: number;
+}
+
+// A shape is either a function placing particle i of `count`, or a point cloud the particles are spread
+// over (each particle lands near one of the points, `jitter` apart at most)
+export type MorphShape =
+  | { kind: 'function'; position: (i: number, count: number, random: RandomFn, context: MorphContext) => Vec3 }
+  | { kind: 'points'; points: (context: MorphContext) => Vec3[]; jitter: number };
+
+export interface MorphTargetDefinition {
+  id: string;
+  label: string;
+  // null: placed by the ornament generator itself, which shares the layout's random stream
+  shape: MorphShape | null;
+}
+
+export const TREE_TARGET = 'tree';
+export const SCATTER_TARGET = 'scatter';
+
+export type MorphTransition = 'together' | 'stagger' | 'wave';
+
+export interface MorphSettings {
+  formation: string; // Target shown in SCATTER
+  transition: MorphTransition;
+}
+
+export const DEFAULT_MORPH_SETTINGS: MorphSettings = {
+  formation: SCATTER_TARGET,
+  transition: 'together',
+};
+
+export const MORPH_TRANSITIONS: { value: MorphTransition; label: string }[] = [
+  { value: 'together', label: 'Together' },
+  { value: 'stagger', label: 'Staggered' },
+  { value: 'wave', label: 'Wave' },
+];
+
+// Longest wait before a particle sets off, for staggered and wave transitions (seconds)
+export const MORPH_DELAY_SPREAD = 1.5;
+
+// 5x7 bitmap digits for text shapes
+const DIGIT_GLYPHS: Record<string, string[]> = {
+  '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  '3': ['11110', '00001', '00001', '01110', '00001', '00001', '11110'],
+  '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+};
+
+const TEXT_CELL_SIZE = 0.7;
+
+// Centres of the lit cells of `text` (digits and spaces), centred on the origin
+export function textPoints(text: string, cellSize = TEXT_CELL_SIZE): Vec3[] {
+  const columns = text.length * 6 - 1; // One empty column between characters
+  const points: Vec3[] = [];
+  [...text].forEach((char, c) => {
+    const glyph = DIGIT_GLYPHS[char];
+    if (!glyph) return;
+    glyph.forEach((row, y) => {
+      [...row].forEach((cell, x) => {
+        if (cell !== '1') return;
+        points.push([(c * 6 + x - (columns - 1) / 2) * cellSize, (3 - y) * cellSize, 0]);
+      });
+    });
+  });
+  return points;
+}
+
+// Spiral galaxy with three arms, tilted towards the camera. The radius is drawn rather than spread by
+// i / count, so particles keep their spots when the count changes.
+function galaxyPosition(i: number, _count: number, random: RandomFn, { scatterRadius }: MorphContext): Vec3 {
+  const arms = 3;
+  const radius = 0.6 + Math.pow(random(), 0.7) * scatterRadius * 0.75;
+  const spread = (random() - 0.5) * 0.6;
+  const theta = ((i % arms) / arms) * Math.PI * 2 + radius * 0.45 + spread;
+  const thickness = (random() - 0.5) * 1.2 * (1 - radius / scatterRadius);
+  const x = Math.cos(theta) * radius;
+  const y = Math.sin(theta) * radius;
+  const tilt = 0.5;
+  return [x, y * Math.cos(tilt) - thickness * Math.sin(tilt), y * Math.sin(tilt) + thickness * Math.cos(tilt)];
+}
+
+// Filled heart from the classic parametric outline
+function heartPosition(_i: number, _count: number, random: RandomFn): Vec3 {
+  const t = random() * Math.PI * 2;
+  const fill = Math.sqrt(random());
+  const scale = 0.42;
+  const x = 16 * Math.pow(Math.sin(t), 3);
+  const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+  return [x * fill * scale, (y * fill + 2) * scale, (random() - 0.5) * 1.2 * (1 - fill * 0.5)];
+}
+
+// Filled five-pointed star
+function starPosition(_i: number, _count: number, random: RandomFn): Vec3 {
+  const outer = 7;
+  const inner = 2.8;
+  const theta = random() * Math.PI * 2;
+  // Intersect the ray at theta with the star edge it crosses
+  const step = Math.PI / 5;
+  const k = Math.floor(theta / step);
+  const vertex = (n: number) => {
+    const r = n % 2 === 0 ? outer : inner;
+    const angle = n * step + Math.PI / 2;
+    return [Math.cos(angle) * r, Math.sin(angle) * r];
+  };
+  const [ax, ay] = vertex(k);
+  const [bx, by] = vertex(k + 1);
+  const dx = Math.cos(theta + Math.PI / 2);
+  const dy = Math.sin(theta + Math.PI / 2);
+  const ex = bx - ax;
+  const ey = by - ay;
+  const edge = (ax * ey - ay * ex) / (dx * ey - dy * ex);
+  const r = edge * Math.sqrt(random());
+  return [dx * r, dy * r, (random() - 0.5) * 0.8];
+}
+
+export const MORPH_TARGETS: MorphTargetDefinition[] = [
+  { id: TREE_TARGET, label: 'Tree', shape: null },
+  { id: SCATTER_TARGET, label: 'Scatter', shape: null },
+  { id: 'galaxy', label: 'Galaxy', shape: { kind: 'function', position: galaxyPosition } },
+  { id: 'heart', label: 'Heart', shape: { kind: 'function', position: heartPosition } },
+  { id: 'year', label: '2026', shape: { kind: 'points', points: () => textPoints('2026'), jitter: TEXT_CELL_SIZE / 2 } },
+  { id: 'star', label: 'Star', shape: { kind: 'function', position: starPosition } },
+];
+
+// Targets the ornaments can form in SCATTER (everything but the tree itself)
+export const FORMATIONS = MORPH_TARGETS.filter((target) => target.id !== TREE_TARGET);
+
+// Formation `step` places after `id`, wrapping around (swipes in SCATTER)
+export function nextFormation(id: string, step: number): string {
+  const index = Math.max(0, FORMATIONS.findIndex((f) => f.id === id));
+  return FORMATIONS[(index + step + FORMATIONS.length) % FORMATIONS.length].id;
+}
+
+// Positions for `count` particles. Each target draws from its own stream, so adding a shape never
+// moves the tree or scatter layout.
+export function sampleMorphTarget(shape: MorphShape, id: string, count: number, seed: number, context: MorphContext): Vec3[] {
+  const random = createItemRandom(seed, `morph:${id}`);
+  if (shape.kind === 'function') {
+    return Array.from({ length: count }, (_, i) => shape.position(i, count, random, context));
+  }
+  const points = shape.points(context);
+  if (points.length === 0) return Array.from({ length: count }, (): Vec3 => [0, 0, 0]);
+  // Spread the particles evenly over the cloud, in order
+  return Array.from({ length: count }, (_, i): Vec3 => {
+    const [x, y, z] = points[Math.min(points.length - 1, Math.floor(((i + random()) / count) * points.length))];
+    const offset = () => (random() * 2 - 1) * shape.jitter;
+    return [x + offset(), y + offset(), z + offset()];
+  });
+}
+
+// Seconds particle i waits before heading to a new target. `rank` is the particle's fixed random value
+// in [0, 1); `distance` how far it is from the centre, relative to the scene's extent.
+export function morphDelay(transition: MorphTransition, rank: number, distance: number): number {
+  switch (transition) {
+    case 'stagger':
+      return rank * MORPH_DELAY_SPREAD;
+    // Ripples outwards from the centre
+    case 'wave':
+      return Math.min(1, Math.max(0, distance)) * MORPH_DELAY_SPREAD;
+    case 'together':
+    default:
+      return 0;
+  }
+}
+
+// Validates stored settings, falling back to the defaults field by field
+export function sanitizeMorphSettings(data: unknown): MorphSettings {
+  const value = (data && typeof data === 'object' ? data : {}) as Partial<Record<keyof MorphSettings, unknown>>;
+  return {
+    formation: FORMATIONS.some((f) => f.id === value.formation) ? (value.formation as string) : DEFAULT_MORPH_SETTINGS.formation,
+    transition: MORPH_TRANSITIONS.some((t) => t.value === value.transition)
+      ? (value.transition as MorphTransition)
+      : DEFAULT_MORPH_SETTINGS.transition,
+  };
+}
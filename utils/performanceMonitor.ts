@@ -0,0 +1,58 @@
+// Smoothed frame and hand-tracking timings. Written from the render loop and the tracking callback,
+// read by the stats overlay; plain mutable state so recording costs nothing per frame.
+
+export interface PerformanceSnapshot {
+  fps: number;
+  frameMs: number;
+  inferenceMs: number | null; // Hand model time per camera frame; null when no model runs
+  pipelineMs: number | null;  // Gesture recognition time per camera frame
+  trackingFps: number | null; // Camera frames processed per second
+}
+
+export interface PerformanceMonitor {
+  recordFrame: (frameMs: number) => void;
+  recordTracking: (cost: { inferenceMs?: number; pipelineMs: number }, timestamp: number) => void;
+  snapshot: () => PerformanceSnapshot;
+}
+
+// Weight of the newest sample in the moving averages
+const SMOOTHING = 0.05;
+// Tracking figures are dropped when no camera frame arrived for this long
+const TRACKING_STALE_MS = 1000;
+
+export function createPerformanceMonitor(): PerformanceMonitor {
+  let frameMs = 0;
+  let inferenceMs: number | null = null;
+  let pipelineMs: number | null = null;
+  let trackingIntervalMs: number | null = null;
+  let lastTrackingAt: number | null = null;
+
+  const average = (current: number | null, sample: number) =>
+    current === null ? sample : current + (sample - current) * SMOOTHING;
+
+  const recordFrame = (ms: number) => {
+    frameMs = frameMs === 0 ? ms : frameMs + (ms - frameMs) * SMOOTHING;
+  };
+
+  const recordTracking = (cost: { inferenceMs?: number; pipelineMs: number }, timestamp: number) => {
+    if (lastTrackingAt !== null && timestamp - lastTrackingAt < TRACKING_STALE_MS) {
+      trackingIntervalMs = average(trackingIntervalMs, timestamp - lastTrackingAt);
+    }
+    lastTrackingAt = timestamp;
+    if (cost.inferenceMs !== undefined) inferenceMs = average(inferenceMs, cost.inferenceMs);
+    pipelineMs = average(pipelineMs, cost.pipelineMs);
+  };
+
+  const snapshot = (): PerformanceSnapshot => {
+    const isTracking = lastTrackingAt !== null && performance.now() - lastTrackingAt < TRACKING_STALE_MS;
+    return {
+      fps: frameMs > 0 ? 1000 / frameMs : 0,
+      frameMs,
+      inferenceMs: isTracking ? inferenceMs : null,
+      pipelineMs: isTracking ? pipelineMs : null,
+      trackingFps: isTracking && trackingIntervalMs ? 1000 / trackingIntervalMs : null,
+    };
+  };
+
+  return { recordFrame, recordTracking, snapshot };
+}
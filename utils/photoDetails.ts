@@ -0,0 +1,31 @@
+import { PhotoMeta } from '../types';
+
+// Caption, date and author the user can attach to a photo
+
+export type PhotoDetails = Pick<PhotoMeta, 'caption' | 'date' | 'author'>;
+
+export const PHOTO_DETAIL_LIMITS = { caption: 120, author: 60 };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// "12 Dec 2024" in the user's locale; '' for a missing or malformed date
+export function formatPhotoDate(date: string): string {
+  if (!DATE_PATTERN.test(date)) return '';
+  const parsed = new Date(`${date}T00:00:00`);
+  if (Number.isNaN(parsed.getTime())) return '';
+  return parsed.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+// Date and author on one line, e.g. "12 Dec 2024 • Ana"
+export function photoByline({ date, author }: Pick<PhotoDetails, 'date' | 'author'>): string {
+  return [formatPhotoDate(date), author.trim()].filter(Boolean).join(' • ');
+}
+
+// Trims text, applies the length limits and drops dates that aren't YYYY-MM-DD
+export function sanitizePhotoDetails(patch: Partial<PhotoDetails>): Partial<PhotoDetails> {
+  const clean: Partial<PhotoDetails> = {};
+  if (patch.caption !== undefined) clean.caption = patch.caption.trim().slice(0, PHOTO_DETAIL_LIMITS.caption);
+  if (patch.author !== undefined) clean.author = patch.author.trim().slice(0, PHOTO_DETAIL_LIMITS.author);
+  if (patch.date !== undefined) clean.date = DATE_PATTERN.test(patch.date) ? patch.date : '';
+  return clean;
+}
@@ -0,0 +1,101 @@
+import { TreeDimensions } from '../types';
+import { RandomFn } from './random';
+
+// Photo sizing and non-overlapping placement for the tree spiral and the scatter cloud
+
+type Vec3 = [number, number, number];
+
+// Longest edge of a photo in world units, and the gold frame around it
+export const PHOTO_SIZE = 1.5;
+export const PHOTO_FRAME_BORDER = 0.05;
+
+// Minimum empty space kept between neighbouring photos
+const PHOTO_GAP = 0.2;
+
+// Image size (world units) for a width / height aspect ratio, longest edge = PHOTO_SIZE
+export function photoImageSize(aspectRatio: number): [number, number] {
+  return aspectRatio >= 1
+    ? [PHOTO_SIZE, PHOTO_SIZE / aspectRatio]
+    : [PHOTO_SIZE * aspectRatio, PHOTO_SIZE];
+}
+
+export function photoFrameSize(aspectRatio: number): [number, number] {
+  const [w, h] = photoImageSize(aspectRatio);
+  return [w + PHOTO_FRAME_BORDER * 2, h + PHOTO_FRAME_BORDER * 2];
+}
+
+// Tapered spiral around the tree that photos hang on, u in [0, 1] from bottom to top
+function treeSpiral(u: number, tree: TreeDimensions): Vec3 {
+  const theta = u * Math.PI * 8;
+  const y = (u - 0.5) * tree.height * 0.7;
+  const normalizedY = (y + tree.height / 2) / tree.height;
+  const radius = (tree.radiusBottom + 1.2) * (1 - normalizedY) + 0.5;
+  return [Math.cos(theta) * radius, y, Math.sin(theta) * radius];
+}
+
+// Spaces photos along the spiral by arc length, giving wide photos proportionally more room
+export function layoutPhotoTree(aspectRatios: number[], tree: TreeDimensions): Vec3[] {
+  if (aspectRatios.length === 0) return [];
+
+  // Sample the spiral's cumulative arc length
+  const samples = 512;
+  const arc: number[] = [0];
+  let prev = treeSpiral(0, tree);
+  for (let i = 1; i <= samples; i++) {
+    const point = treeSpiral(i / samples, tree);
+    arc.push(arc[i - 1] + Math.hypot(point[0] - prev[0], point[1] - prev[1], point[2] - prev[2]));
+    prev = point;
+  }
+  const spiralLength = arc[samples];
+
+  const widths = aspectRatios.map((a) => photoFrameSize(a)[0] + PHOTO_GAP);
+  const required = widths.reduce((sum, w) => sum + w, 0);
+  // Spread the photos over the whole spiral (compresses if there are too many to fit)
+  const stretch = spiralLength / required;
+
+  let cursor = 0;
+  let sampleIndex = 0;
+  return widths.map((w) => {
+    const target = (cursor + w / 2) * stretch;
+    cursor += w;
+    while (sampleIndex < samples && arc[sampleIndex + 1] < target) sampleIndex++;
+    const segment = arc[sampleIndex + 1] - arc[sampleIndex] || 1;
+    const u = (sampleIndex + Math.min(1, (target - arc[sampleIndex]) / segment)) / samples;
+    return treeSpiral(u, tree);
+  });
+}
+
+// Random positions in the scatter box, rejecting candidates whose frames would overlap.
+// `randomFor` supplies the random stream for each photo.
+export function layoutPhotoScatter(
+  aspectRatios: number[],
+  randomFor: (index: number) => RandomFn = () => Math.random
+): Vec3[] {
+  const attempts = 30;
+  const depthSeparation = 1.5; // Photos further apart in depth than this can't visually collide
+  const placed: { position: Vec3; size: [number, number] }[] = [];
+
+  aspectRatios.forEach((aspectRatio, index) => {
+    const random = randomFor(index);
+    const size = photoFrameSize(aspectRatio);
+    let best: Vec3 | null = null;
+    let bestOverlaps = Infinity;
+
+    for (let attempt = 0; attempt < attempts && bestOverlaps > 0; attempt++) {
+      const candidate: Vec3 = [(random() - 0.5) * 16, (random() - 0.5) * 12, (random() - 0.5) * 8];
+      const overlaps = placed.filter(({ position, size: other }) =>
+        Math.abs(position[0] - candidate[0]) < (size[0] + other[0]) / 2 + PHOTO_GAP
+        && Math.abs(position[1] - candidate[1]) < (size[1] + other[1]) / 2 + PHOTO_GAP
+        && Math.abs(position[2] - candidate[2]) < depthSeparation
+      ).length;
+      if (overlaps < bestOverlaps) {
+        best = candidate;
+        bestOverlaps = overlaps;
+      }
+    }
+
+    placed.push({ position: best!, size });
+  });
+
+  return placed.map((p) => p.position);
+}
@@ -0,0 +1,132 @@
+import { PhotoMeta } from '../types';
+import { createRandom } from './random';
+
+// Auto-tour: shows the photos one after another in FOCUS. Pure state helpers; App runs the timer
+// and the scene reads tourCameraOffset to move the camera while a photo is shown.
+
+export type TourOrder = 'sequence' | 'shuffle' | 'date';
+export type TourTransition = 'glide' | 'swoop' | 'drift';
+
+export interface TourSettings {
+  dwellMs: number; // How long each photo is shown
+  order: TourOrder;
+  transition: TourTransition;
+}
+
+export const DEFAULT_TOUR_SETTINGS: TourSettings = {
+  dwellMs: 5000,
+  order: 'sequence',
+  transition: 'swoop',
+};
+
+export const TOUR_DWELL_RANGE = { min: 2000, max: 20000, step: 500 };
+
+export const TOUR_ORDERS: { value: TourOrder; label: string }[] = [
+  { value: 'sequence', label: 'In order' },
+  { value: 'shuffle', label: 'Shuffle' },
+  { value: 'date', label: 'By date' },
+];
+
+export const TOUR_TRANSITIONS: { value: TourTransition; label: string }[] = [
+  { value: 'glide', label: 'Glide' },
+  { value: 'swoop', label: 'Swoop' },
+  { value: 'drift', label: 'Drift' },
+];
+
+export interface PhotoTour {
+  photoIds: string[]; // Ids rather than indices, so the order survives photos being added
+  position: number;   // Index into photoIds of the photo on show
+  status: 'playing' | 'paused';
+  shownAt: number;    // When the current photo appeared (ms, performance.now())
+  remainingMs: number; // Dwell left when paused
+}
+
+// What the scene needs to animate the camera for the photo on show
+export interface TourCamera {
+  transition: TourTransition;
+  shownAt: number;
+  dwellMs: number;
+  position: number;
+}
+
+// Returns null when there is nothing to show
+export function createPhotoTour(photos: PhotoMeta[], order: TourOrder, seed: number, now: number): PhotoTour | null {
+  if (photos.length === 0) return null;
+  const ordered = [...photos];
+  if (order === 'date') {
+    // Date taken when set, otherwise when uploaded; the sort is stable so ties keep their order
+    const timeOf = (p: PhotoMeta) => (p.date ? Date.parse(p.date) : p.uploadedAt);
+    ordered.sort((a, b) => timeOf(a) - timeOf(b));
+  } else if (order === 'shuffle') {
+    const random = createRandom(seed);
+    for (let i = ordered.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+    }
+  }
+  return { photoIds: ordered.map((p) => p.id), position: 0, status: 'playing', shownAt: now, remainingMs: 0 };
+}
+
+// Next photo, wrapping around at the end
+export function advanceTour(tour: PhotoTour, now: number): PhotoTour {
+  return { ...tour, position: (tour.position + 1) % tour.photoIds.length, shownAt: now, remainingMs: 0 };
+}
+
+export function pauseTour(tour: PhotoTour, now: number, dwellMs: number): PhotoTour {
+  if (tour.status === 'paused') return tour;
+  return { ...tour, status: 'paused', remainingMs: Math.max(0, dwellMs - (now - tour.shownAt)) };
+}
+
+// Picks up with the dwell that was left when pausing
+export function resumeTour(tour: PhotoTour, now: number, dwellMs: number): PhotoTour {
+  if (tour.status === 'playing') return tour;
+  return { ...tour, status: 'playing', shownAt: now - (dwellMs - tour.remainingMs), remainingMs: 0 };
+}
+
+export function tourDelay(tour: PhotoTour, now: number, dwellMs: number): number {
+  return Math.max(0, dwellMs - (now - tour.shownAt));
+}
+
+// Camera offset from its FOCUS rest position while a photo is on show; progress runs 0..1 over the dwell
+export function tourCameraOffset(
+  transition: TourTransition,
+  progress: number,
+  position: number
+): { x: number; y: number; z: number } {
+  const t = Math.min(1, Math.max(0, progress));
+  switch (transition) {
+    // Start pulled back and fly in over the first quarter of the dwell
+    case 'swoop': {
+      const approach = 1 - smoothstep(t / 0.25);
+      return { x: 0, y: approach * 2, z: approach * 10 };
+    }
+    // Slow pan and push-in, alternating direction from photo to photo
+    case 'drift': {
+      const direction = position % 2 === 0 ? 1 : -1;
+      return { x: direction * (t - 0.5) * 1.2, y: 0, z: -t * 1.5 };
+    }
+    case 'glide':
+    default:
+      return { x: 0, y: 0, z: 0 };
+  }
+}
+
+// Validates stored settings, falling back to the defaults field by field
+export function sanitizeTourSettings(data: unknown): TourSettings {
+  const value = (data && typeof data === 'object' ? data : {}) as Partial<Record<keyof TourSettings, unknown>>;
+  const dwellMs = typeof value.dwellMs === 'number' && Number.isFinite(value.dwellMs)
+    ? Math.min(TOUR_DWELL_RANGE.max, Math.max(TOUR_DWELL_RANGE.min, value.dwellMs))
+    : DEFAULT_TOUR_SETTINGS.dwellMs;
+  return {
+    dwellMs,
+    order: TOUR_ORDERS.some((o) => o.value === value.order) ? (value.order as TourOrder) : DEFAULT_TOUR_SETTINGS.order,
+    transition: TOUR_TRANSITIONS.some((o) => o.value === value.transition)
+      ? (value.transition as TourTransition)
+      : DEFAULT_TOUR_SETTINGS.transition,
+  };
+}
+
+function smoothstep(x: number): number {
+  const t = Math.min(1, Math.max(0, x));
+  return t * t * (3 - 2 * t);
+}
@@ -0,0 +1,264 @@
+import { AppState, GestureType, HandCursor, TwoHandState } from '../types';
+
+// Mouse, touch and keyboard input turned into the same intents and camera controls as the hand gestures.
+// Pure like gesturePipeline.ts: the component feeds DOM events in (positions in NDC, -1..1 with y up)
+// and forwards each frame to the scene exactly like HandManager does.
+
+// High-level intents; resolveIntent maps them onto the gesture the state machine understands
+export type InputIntent = 'tap' | 'tree' | 'scatter' | 'select' | 'back' | 'previous' | 'next';
+
+export interface PointerSample {
+  id: number;
+  x: number;
+  y: number;
+  timestamp: number; // ms
+  isTouch: boolean; // Touch / pen points hide the cursor when lifted; the mouse keeps it
+}
+
+export interface PointerInputConfig {
+  tapMaxMs: number;
+  tapMaxDistance: number; // NDC; moving further turns a press into a drag
+  swipeMinDistance: number; // NDC, horizontal
+  swipeMaxMs: number;
+  dragGain: number; // Steering per NDC of drag
+  steerLimit: { x: number; y: number }; // Same range the hand steering reaches
+  keyOrbitStep: number;
+  keyZoomStep: number; // Zoom factor per +/- press
+  wheelZoomRate: number; // Zoom exponent per wheel pixel
+}
+
+export const DEFAULT_POINTER_INPUT_CONFIG: PointerInputConfig = {
+  tapMaxMs: 300,
+  tapMaxDistance: 0.04,
+  swipeMinDistance: 0.3,
+  swipeMaxMs: 400,
+  dragGain: 1.5,
+  steerLimit: { x: 1.4, y: 0.7 },
+  keyOrbitStep: 0.2,
+  keyZoomStep: 1.15,
+  wheelZoomRate: 0.002,
+};
+
+export interface PointerInputFrame {
+  intents: InputIntent[];
+  steer: { x: number; y: number }; // Camera look-around, like the steering hand
+  cursor: HandCursor;
+  twoHand: TwoHandState | null; // Pinch-zoom / wheel / +- zoom reuse the two-hand ZOOM control
+}
+
+export interface PointerInput {
+  down: (sample: PointerSample) => PointerInputFrame;
+  move: (sample: PointerSample) => PointerInputFrame;
+  up: (sample: PointerSample) => PointerInputFrame;
+  cancel: (id: number) => PointerInputFrame;
+  leave: () => PointerInputFrame; // Mouse left the window
+  wheel: (deltaY: number) => PointerInputFrame;
+  key: (key: string, appState: AppState) => PointerInputFrame | null; // null for unbound keys
+  endZoom: () => PointerInputFrame; // Wheel / key zooming went idle
+  reset: () => void;
+}
+
+// Zoom sessions are kept within this factor so reversing direction responds right away
+const MAX_ZOOM_SESSION = 4;
+
+interface TrackedPointer {
+  start: PointerSample;
+  last: PointerSample;
+  dragging: boolean;
+}
+
+export function createPointerInput(overrides: Partial<PointerInputConfig> = {}): PointerInput {
+  const config: PointerInputConfig = { ...DEFAULT_POINTER_INPUT_CONFIG, ...overrides };
+  const pointers = new Map<number, TrackedPointer>();
+  let steer = { x: 0, y: 0 };
+  let cursor: HandCursor = { x: 0, y: 0, visible: false };
+  let zoom: number | null = null; // Zoom factor of the running session, null when idle
+  let pinchDistance: number | null = null; // Finger distance when the two-finger pinch started
+
+  const frame = (intents: InputIntent[] = []): PointerInputFrame => ({
+    intents,
+    steer: { ...steer },
+    cursor: { ...cursor },
+    twoHand: zoom === null ? null : { gesture: GestureType.ZOOM, zoom, rotation: 0 },
+  });
+
+  const setZoom = (value: number | null) => {
+    zoom = value === null ? null : clamp(value, 1 / MAX_ZOOM_SESSION, MAX_ZOOM_SESSION);
+  };
+
+  const moveSteer = (dx: number, dy: number) => {
+    steer = {
+      x: clamp(steer.x + dx, -config.steerLimit.x, config.steerLimit.x),
+      y: clamp(steer.y + dy, -config.steerLimit.y, config.steerLimit.y),
+    };
+  };
+
+  const fingerDistance = () => {
+    const [a, b] = Array.from(pointers.values(), (p) => p.last);
+    return Math.max(1e-6, Math.hypot(a.x - b.x, a.y - b.y));
+  };
+
+  const down = (sample: PointerSample) => {
+    pointers.set(sample.id, { start: sample, last: sample, dragging: false });
+    cursor = { x: sample.x, y: sample.y, visible: true };
+    if (pointers.size === 2) {
+      // A second finger turns the gesture into a pinch; neither finger can tap or drag any more
+      pointers.forEach((p) => (p.dragging = true));
+      pinchDistance = fingerDistance();
+      setZoom(1);
+    }
+    return frame();
+  };
+
+  const move = (sample: PointerSample) => {
+    const pointer = pointers.get(sample.id);
+    if (!pointer) {
+      // Mouse hovering without a button pressed
+      if (!sample.isTouch) cursor = { x: sample.x, y: sample.y, visible: true };
+      return frame();
+    }
+
+    const previous = pointer.last;
+    pointer.last = sample;
+    if (pointers.size >= 2) {
+      if (pinchDistance !== null) setZoom(fingerDistance() / pinchDistance);
+      return frame();
+    }
+
+    cursor = { x: sample.x, y: sample.y, visible: true };
+    if (!pointer.dragging && Math.hypot(sample.x - pointer.start.x, sample.y - pointer.start.y) > config.tapMaxDistance) {
+      pointer.dragging = true;
+    }
+    // Grab-and-drag: dragging right / down turns the camera so the scene follows the pointer
+    if (pointer.dragging) moveSteer((sample.x - previous.x) * config.dragGain, (previous.y - sample.y) * config.dragGain);
+    return frame();
+  };
+
+  const release = (id: number, sample: PointerSample | null) => {
+    const pointer = pointers.get(id);
+    if (!pointer) return frame();
+    pointers.delete(id);
+
+    const wasPinching = pinchDistance !== null;
+    if (wasPinching && pointers.size < 2) {
+      pinchDistance = null;
+      setZoom(null);
+      // The finger left on screen continues as a drag from where it is now
+      pointers.forEach((p) => (p.start = p.last));
+    }
+    if (sample?.isTouch && pointers.size === 0) cursor = { ...cursor, visible: false };
+    if (!sample || wasPinching) return frame();
+
+    const duration = sample.timestamp - pointer.start.timestamp;
+    const dx = sample.x - pointer.start.x;
+    const dy = sample.y - pointer.start.y;
+    if (!pointer.dragging && duration <= config.tapMaxMs) return frame(['tap']);
+    // Flicking the content left shows the next photo, like a gallery
+    if (duration <= config.swipeMaxMs && Math.abs(dx) >= config.swipeMinDistance && Math.abs(dx) > 2 * Math.abs(dy)) {
+      return frame([dx < 0 ? 'next' : 'previous']);
+    }
+    return frame();
+  };
+
+  const wheel = (deltaY: number) => {
+    setZoom((zoom ?? 1) * Math.exp(-deltaY * config.wheelZoomRate));
+    return frame();
+  };
+
+  const key = (key: string, appState: AppState): PointerInputFrame | null => {
+    const orbit = config.keyOrbitStep;
+    switch (key) {
+      case 't':
+      case 'T':
+        return frame(['tree']);
+      case 's':
+      case 'S':
+        return frame(['scatter']);
+      case 'Enter':
+      case ' ':
+        return frame(['select']);
+      case 'Escape':
+      case 'Backspace':
+        return frame(['back']);
+      // Arrows browse while a photo is focused and look around otherwise
+      case 'ArrowLeft':
+        if (appState === AppState.FOCUS) return frame(['previous']);
+        moveSteer(orbit, 0);
+        return frame();
+      case 'ArrowRight':
+        if (appState === AppState.FOCUS) return frame(['next']);
+        moveSteer(-orbit, 0);
+        return frame();
+      case 'ArrowUp':
+        moveSteer(0, orbit);
+        return frame();
+      case 'ArrowDown':
+        moveSteer(0, -orbit);
+        return frame();
+      case '+':
+      case '=':
+        setZoom((zoom ?? 1) * config.keyZoomStep);
+        return frame();
+      case '-':
+      case '_':
+        setZoom((zoom ?? 1) / config.keyZoomStep);
+        return frame();
+      default:
+        return null;
+    }
+  };
+
+  const reset = () => {
+    pointers.clear();
+    steer = { x: 0, y: 0 };
+    cursor = { x: 0, y: 0, visible: false };
+    zoom = null;
+    pinchDistance = null;
+  };
+
+  return {
+    down,
+    move,
+    up: (sample) => release(sample.id, sample),
+    cancel: (id) => release(id, null),
+    leave: () => {
+      if (pointers.size === 0) cursor = { ...cursor, visible: false };
+      return frame();
+    },
+    wheel,
+    key,
+    endZoom: () => {
+      if (pinchDistance === null) setZoom(null);
+      return frame();
+    },
+    reset,
+  };
+}
+
+// Maps an intent onto the gesture with the same meaning in the current state; null when it does nothing here
+export function resolveIntent(intent: InputIntent, appState: AppState, hasTarget: boolean): GestureType | null {
+  switch (intent) {
+    // Tap: scatter the tree, focus the photo under the pointer, or leave the focused photo
+    case 'tap':
+      if (appState === AppState.SCATTER) return hasTarget ? GestureType.PINCH : null;
+      return GestureType.OPEN;
+    case 'tree':
+      return GestureType.FIST;
+    case 'scatter':
+      return GestureType.OPEN;
+    case 'select':
+      return GestureType.PINCH;
+    // Back steps out one level: FOCUS -> SCATTER -> TREE
+    case 'back':
+      if (appState === AppState.FOCUS) return GestureType.OPEN;
+      return appState === AppState.SCATTER ? GestureType.FIST : null;
+    case 'previous':
+      return GestureType.SWIPE_LEFT;
+    case 'next':
+      return GestureType.SWIPE_RIGHT;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,134 @@
+// Quality tiers and the adaptive controller that steps between them to hold a target frame rate.
+// Pure: App feeds it frame times and applies the tier it picks.
+
+export interface QualityTier {
+  id: string;
+  label: string;
+  maxDpr: number;        // Device pixel ratio cap
+  particleScale: number; // Share of the ornament (and snowflake) count drawn
+  shadows: boolean;
+  postprocessing: boolean; // Bloom and vignette
+  // Hand model inferences per second at most. This stands in for stepping the model's complexity: the
+  // MediaPipe HandLandmarker ships a single (full) model, and dropping to one hand would break two-hand gestures.
+  handTrackingFps: number;
+}
+
+// Best first
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'high', label: 'High', maxDpr: 2, particleScale: 1, shadows: true, postprocessing: true, handTrackingFps: 30 },
+  { id: 'medium', label: 'Medium', maxDpr: 1.5, particleScale: 0.75, shadows: false, postprocessing: true, handTrackingFps: 24 },
+  { id: 'low', label: 'Low', maxDpr: 1, particleScale: 0.5, shadows: false, postprocessing: true, handTrackingFps: 20 },
+  { id: 'minimal', label: 'Minimal', maxDpr: 0.75, particleScale: 0.3, shadows: false, postprocessing: false, handTrackingFps: 15 },
+];
+
+// 'auto' lets the controller pick; a tier id pins that tier
+export type QualityMode = 'auto' | string;
+
+export interface QualityPreferences {
+  mode: QualityMode;
+  showStats: boolean;
+}
+
+export const DEFAULT_QUALITY_PREFERENCES: QualityPreferences = { mode: 'auto', showStats: false };
+
+export interface QualityControllerConfig {
+  targetFps: number;     // Frame rate worth stepping up for
+  minFps: number;        // Below this the controller steps down
+  windowMs: number;      // Frame times are averaged over windows this long
+  settleMs: number;      // Ignored after a tier change (shaders recompile, buffers reallocate)
+  upgradeAfterMs: number; // Sustained good frame rate needed before stepping up
+  maxUpgradeAfterMs: number; // Upper bound as failed upgrades double the wait
+}
+
+export const DEFAULT_QUALITY_CONTROLLER_CONFIG: QualityControllerConfig = {
+  targetFps: 55,
+  minFps: 42,
+  windowMs: 2000,
+  settleMs: 1500,
+  upgradeAfterMs: 6000,
+  maxUpgradeAfterMs: 60000,
+};
+
+// Frames longer than this are stalls (tab switch, GC, shader compile) rather than load; they're skipped
+const MAX_FRAME_MS = 250;
+
+export interface QualityController {
+  // Feeds one frame; returns the new tier index when the controller changes tier, otherwise null
+  update: (frameMs: number, now: number) => number | null;
+  // Starts over from the given tier (e.g. when switching back to automatic quality)
+  reset: (tier: number, now: number) => void;
+}
+
+export function createQualityController(
+  initialTier: number,
+  overrides: Partial<QualityControllerConfig> = {}
+): QualityController {
+  const config = { ...DEFAULT_QUALITY_CONTROLLER_CONFIG, ...overrides };
+  let tier = initialTier;
+  let windowStart = 0;
+  let windowFrames = 0;
+  let windowTime = 0;
+  let settleUntil = 0;
+  let goodSince: number | null = null;
+  let upgradeWait = config.upgradeAfterMs;
+  let lastUpgradeAt = -Infinity;
+
+  const changeTier = (next: number, now: number) => {
+    tier = next;
+    settleUntil = now + config.settleMs;
+    goodSince = null;
+    windowFrames = 0;
+    windowTime = 0;
+    return tier;
+  };
+
+  const update = (frameMs: number, now: number): number | null => {
+    if (now < settleUntil || frameMs > MAX_FRAME_MS) return null;
+    if (windowFrames === 0) windowStart = now;
+    windowFrames++;
+    windowTime += frameMs;
+    if (now - windowStart < config.windowMs) return null;
+
+    const fps = (windowFrames * 1000) / windowTime;
+    windowFrames = 0;
+    windowTime = 0;
+
+    if (fps < config.minFps) {
+      if (tier >= QUALITY_TIERS.length - 1) return null;
+      // Dropping right after an upgrade means the better tier can't be held: wait longer next time
+      if (now - lastUpgradeAt < upgradeWait) upgradeWait = Math.min(config.maxUpgradeAfterMs, upgradeWait * 2);
+      return changeTier(tier + 1, now);
+    }
+    if (fps < config.targetFps || tier === 0) {
+      goodSince = null;
+      return null;
+    }
+    goodSince ??= now;
+    if (now - goodSince < upgradeWait) return null;
+    lastUpgradeAt = now;
+    return changeTier(tier - 1, now);
+  };
+
+  const reset = (next: number, now: number) => {
+    changeTier(next, now);
+    upgradeWait = config.upgradeAfterMs;
+    lastUpgradeAt = -Infinity;
+  };
+
+  return { update, reset };
+}
+
+export function qualityTierIndex(id: string): number {
+  return Math.max(0, QUALITY_TIERS.findIndex((tier) => tier.id === id));
+}
+
+// Validates stored preferences, falling back to the defaults field by field
+export function sanitizeQualityPreferences(data: unknown): QualityPreferences {
+  const value = (data && typeof data === 'object' ? data : {}) as Partial<Record<keyof QualityPreferences, unknown>>;
+  return {
+    mode: value.mode === 'auto' || QUALITY_TIERS.some((tier) => tier.id === value.mode)
+      ? (value.mode as QualityMode)
+      : DEFAULT_QUALITY_PREFERENCES.mode,
+    showStats: typeof value.showStats === 'boolean' ? value.showStats : DEFAULT_QUALITY_PREFERENCES.showStats,
+  };
+}
@@ -0,0 +1,40 @@
+// Seeded pseudo-random numbers, so a given seed always lays out the same tree
+
+export type RandomFn = () => number;
+
+// mulberry32: small, fast 32-bit PRNG returning values in [0, 1)
+export function createRandom(seed: number): RandomFn {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a hash, used to turn strings (URL seeds, photo ids) into 32-bit seeds
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Independent stream for one item (e.g. a photo), unaffected by how many items came before it
+export function createItemRandom(seed: number, key: string): RandomFn {
+  return createRandom(seed ^ hashString(key));
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+// Accepts ?seed=<number> or any string, which is hashed
+export function parseSeed(value: string | null): number | null {
+  if (!value) return null;
+  return /^\d+$/.test(value) ? Number(value) >>> 0 : hashString(value);
+}
@@ -0,0 +1,76 @@
+import { SceneSettings, Theme } from '../types';
+import { CONFIG } from '../constants';
+
+// Scene settings are stored as overrides on top of defaults, so values the user never touched
+// keep following the active theme (tree size, bloom) and future default changes
+
+export type SceneSettingsOverrides = Partial<SceneSettings>;
+
+export interface SceneSettingField {
+  key: keyof SceneSettings;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Panel layout and the valid range of every setting
+export const SCENE_SETTING_FIELDS: SceneSettingField[] = [
+  { key: 'particleCount', label: 'Ornaments', min: 100, max: 15000, step: 100 },
+  { key: 'treeHeight', label: 'Tree height', min: 6, max: 20, step: 0.5 },
+  { key: 'treeRadiusBottom', label: 'Tree radius', min: 2, max: 8, step: 0.1 },
+  { key: 'scatterRadius', label: 'Scatter radius', min: 5, max: 30, step: 1 },
+  { key: 'garlandLoops', label: 'Garland loops', min: 1, max: 12, step: 0.5 },
+  { key: 'bloomIntensity', label: 'Bloom intensity', min: 0, max: 4, step: 0.1 },
+  { key: 'bloomThreshold', label: 'Bloom threshold', min: 0, max: 1, step: 0.05 },
+  { key: 'treeRotationSpeed', label: 'Tree rotation', min: 0, max: 1, step: 0.01 },
+  { key: 'garlandRotationSpeed', label: 'Garland rotation', min: 0, max: 1, step: 0.01 },
+  { key: 'ornamentSpinSpeed', label: 'Ornament spin', min: 0, max: 3, step: 0.1 },
+  { key: 'snowDensity', label: 'Snowflakes', min: 0, max: 6000, step: 100 },
+  { key: 'snowFlakeSize', label: 'Flake size', min: 0.04, max: 0.4, step: 0.01 },
+  { key: 'snowWind', label: 'Wind', min: -3, max: 3, step: 0.1 },
+];
+
+export function defaultSceneSettings(theme: Theme): SceneSettings {
+  return {
+    particleCount: CONFIG.PARTICLE_COUNT,
+    scatterRadius: CONFIG.SCATTER_RADIUS,
+    treeHeight: theme.tree.height,
+    treeRadiusBottom: theme.tree.radiusBottom,
+    garlandLoops: CONFIG.GARLAND_LOOPS,
+    bloomIntensity: theme.effects.bloomIntensity,
+    bloomThreshold: theme.effects.bloomThreshold,
+    treeRotationSpeed: CONFIG.TREE_ROTATION_SPEED,
+    garlandRotationSpeed: CONFIG.GARLAND_ROTATION_SPEED,
+    ornamentSpinSpeed: CONFIG.ORNAMENT_SPIN_SPEED,
+    snowDensity: CONFIG.SNOW_FLAKE_COUNT,
+    snowFlakeSize: CONFIG.SNOW_FLAKE_SIZE,
+    snowWind: CONFIG.SNOW_WIND,
+  };
+}
+
+export function resolveSceneSettings(theme: Theme, overrides: SceneSettingsOverrides): SceneSettings {
+  return { ...defaultSceneSettings(theme), ...overrides };
+}
+
+// The theme as rendered: tree size and bloom replaced by the (possibly overridden) settings
+export function applySceneSettings(theme: Theme, settings: SceneSettings): Theme {
+  return {
+    ...theme,
+    tree: { height: settings.treeHeight, radiusBottom: settings.treeRadiusBottom },
+    effects: { ...theme.effects, bloomIntensity: settings.bloomIntensity, bloomThreshold: settings.bloomThreshold },
+  };
+}
+
+// Keeps only known keys with finite values, clamped to each field's range
+export function sanitizeSceneOverrides(data: unknown): SceneSettingsOverrides {
+  const overrides: SceneSettingsOverrides = {};
+  if (!data || typeof data !== 'object') return overrides;
+  for (const { key, min, max } of SCENE_SETTING_FIELDS) {
+    const value = (data as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      overrides[key] = Math.min(max, Math.max(min, value));
+    }
+  }
+  return overrides;
+}
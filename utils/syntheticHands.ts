@@ -0,0 +1,97 @@
+import { HandLandmark, Handedness } from '../types';
+import { RecordedFrame } from './landmarkRecording';
+
+// Synthetic MediaPipe hand landmarks for the pipeline tests: an upright right hand seen by the webcam,
+// 0.1 image units from wrist to middle knuckle (one palm length), y growing downwards.
+
+export type HandPose = 'open' | 'fist' | 'pinch' | 'point' | 'thumbs-up';
+
+export interface HandOptions {
+  x?: number; // Palm centre, image space (0 to 1)
+  y?: number;
+  pinchGap?: number; // Thumb to index tip for 'pinch', in palm lengths
+}
+
+const PALM = 0.1;
+const SEGMENTS = [0.035, 0.025, 0.02]; // MCP -> PIP -> DIP -> tip
+// Knuckles relative to the wrist, index to pinky
+const KNUCKLES: [number, number][] = [[-0.03, -0.1], [0, -0.1], [0.025, -0.095], [0.045, -0.085]];
+const CURL = 1.2; // Radians at each finger joint when curled
+
+// A finger from its knuckle, bending `bend` radians at each joint (towards the camera)
+function finger(knuckle: HandLandmark, bend: number): HandLandmark[] {
+  const points = [knuckle];
+  SEGMENTS.forEach((length, i) => {
+    const previous = points[points.length - 1];
+    const angle = bend * i;
+    points.push({ x: previous.x, y: previous.y - Math.cos(angle) * length, z: previous.z + Math.sin(angle) * length });
+  });
+  return points.slice(1);
+}
+
+export function hand(pose: HandPose, { x = 0.5, y = 0.5, pinchGap = 0.05 }: HandOptions = {}): HandLandmark[] {
+  // Palm centre is halfway between the wrist and the middle knuckle
+  const wrist = { x, y: y + PALM / 2, z: 0 };
+  const at = (dx: number, dy: number): HandLandmark => ({ x: wrist.x + dx, y: wrist.y + dy, z: 0 });
+  const knuckles = KNUCKLES.map(([dx, dy]) => at(dx, dy));
+  const bends = {
+    open: [0, 0, 0, 0],
+    fist: [CURL, CURL, CURL, CURL],
+    pinch: [0, 0, 0, 0],
+    point: [0, CURL, CURL, CURL],
+    'thumbs-up': [CURL, CURL, CURL, CURL],
+  }[pose];
+  const fingers = knuckles.map((knuckle, i) => [knuckle, ...finger(knuckle, bends[i])]);
+  const indexTip = fingers[0][3];
+
+  let thumb: HandLandmark[];
+  switch (pose) {
+    case 'open':
+      // Out to the side, straight
+      thumb = [at(-0.04, -0.03), at(-0.07, -0.05), at(-0.09, -0.07), at(-0.11, -0.09)];
+      break;
+    case 'thumbs-up':
+      // Straight up beside the fist
+      thumb = [at(-0.04, -0.03), at(-0.05, -0.08), at(-0.05, -0.12), at(-0.05, -0.16)];
+      break;
+    case 'pinch':
+      thumb = [
+        at(-0.04, -0.03),
+        at(-0.07, -0.06),
+        at(-0.07, -0.12),
+        { x: indexTip.x - pinchGap * PALM, y: indexTip.y, z: indexTip.z },
+      ];
+      break;
+    default:
+      // Folded across the palm
+      thumb = [at(-0.04, -0.03), at(-0.06, -0.05), at(-0.05, -0.07), at(-0.02, -0.07)];
+  }
+
+  return [wrist, ...thumb, ...fingers.flat()];
+}
+
+export interface FrameHand {
+  label: Handedness['label'];
+  pose: HandPose;
+  options?: HandOptions;
+}
+
+export function recordedFrame(t: number, hands: FrameHand[]): RecordedFrame {
+  return {
+    t,
+    multiHandLandmarks: hands.map(({ pose, options }) => hand(pose, options)),
+    multiHandedness: hands.map(({ label }) => ({ label, score: 0.9 })),
+  };
+}
+
+// Frames every `step` ms over [from, to), with the hands given for each timestamp
+export function recordedFrames(
+  from: number,
+  to: number,
+  hands: (t: number) => FrameHand[],
+  step = 33
+): RecordedFrame[] {
+  const frames: RecordedFrame[] = [];
+  for (let t = from; t < to; t += step) frames.push(recordedFrame(t, hands(t)));
+  return frames;
+}
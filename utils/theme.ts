@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { damp, damp3, dampC } from 'maath/easing';
+import { OrnamentType, Theme, ThemeLight } from '../types';
+import { RandomFn } from './random';
+import { isFiniteNumber, isRecord } from './guards';
+
+// Theme helpers: weighted sampling for layout, JSON import / export, and the
+// per-frame animated values used to cross-fade between themes
+
+export const THEME_FILE_VERSION = 1;
+
+// Seconds for a theme switch to mostly settle
+const THEME_SMOOTH_TIME = 0.8;
+
+export type LightRole = 'key' | 'fill' | 'spot' | 'back';
+export const LIGHT_ROLES: LightRole[] = ['key', 'fill', 'spot', 'back'];
+
+const ORNAMENT_TYPES: OrnamentType[] = ['sphere', 'cube', 'candy', 'ring', 'diamond'];
+
+// Picks one of `entries` with probability proportional to `weightOf`
+export function pickWeighted<T>(entries: T[], weightOf: (entry: T) => number, random: RandomFn): T {
+  const total = entries.reduce((sum, entry) => sum + Math.max(0, weightOf(entry)), 0);
+  let roll = random() * total;
+  for (const entry of entries) {
+    roll -= Math.max(0, weightOf(entry));
+    if (roll < 0) return entry;
+  }
+  return entries[entries.length - 1];
+}
+
+export function pickOrnamentShape(weights: Theme['ornaments']['surfaceShapes'], random: RandomFn): OrnamentType {
+  const shapes = ORNAMENT_TYPES.filter((type) => (weights[type] ?? 0) > 0);
+  if (shapes.length === 0) return 'sphere';
+  return pickWeighted(shapes, (type) => weights[type] ?? 0, random);
+}
+
+export function exportTheme(theme: Theme): string {
+  return JSON.stringify({ version: THEME_FILE_VERSION, theme }, null, 2);
+}
+
+// Validates an imported theme file; throws with a readable message on anything malformed
+export function importTheme(json: string): Theme {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Theme file is not valid JSON');
+  }
+  const version = isRecord(data) ? data.version : undefined;
+  if (!isRecord(data) || version !== THEME_FILE_VERSION) {
+    throw new Error(`Unsupported theme file version: ${version ?? 'missing'}`);
+  }
+
+  const { theme } = data;
+  if (!isTheme(theme)) {
+    throw new Error(`Theme file has invalid fields: ${invalidThemeFields(theme).join(', ')}`);
+  }
+
+  return theme;
+}
+
+export function isTheme(value: unknown): value is Theme {
+  return invalidThemeFields(value).length === 0;
+}
+
+// Value at `path` inside nested objects, or undefined where the path breaks off
+const at = (value: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => (isRecord(current) ? current[key] : undefined), value);
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(value);
+
+const isLight = (light: unknown): light is ThemeLight =>
+  isRecord(light) && isColor(light.color) && isFiniteNumber(light.intensity)
+  && Array.isArray(light.position) && light.position.length === 3 && light.position.every(isFiniteNumber);
+
+const isShapeWeights = (weights: unknown): weights is Theme['ornaments']['surfaceShapes'] =>
+  isRecord(weights)
+  && Object.entries(weights).every(([type, weight]) => ORNAMENT_TYPES.includes(type as OrnamentType) && isFiniteNumber(weight));
+
+const isSwatch = (swatch: unknown): swatch is Theme['ornaments']['palette'][number] =>
+  isRecord(swatch) && isColor(swatch.color) && isFiniteNumber(swatch.weight) && isFiniteNumber(swatch.glow);
+
+const isPositive = (value: unknown) => isFiniteNumber(value) && value > 0;
+
+// Names of the fields that are missing or malformed; empty for a valid theme
+export function invalidThemeFields(theme: unknown): string[] {
+  const id = at(theme, 'id');
+  const palette = at(theme, 'ornaments', 'palette');
+  const effects = at(theme, 'effects');
+
+  const checks: [string, boolean][] = [
+    ['id', typeof id === 'string' && id.length > 0],
+    ['name', typeof at(theme, 'name') === 'string'],
+    ['background', isColor(at(theme, 'background'))],
+    ['metal', isColor(at(theme, 'metal'))],
+    ['ornaments.palette', Array.isArray(palette) && palette.length > 0 && palette.every(isSwatch)],
+    ['ornaments.specialColor', isColor(at(theme, 'ornaments', 'specialColor'))],
+    ['ornaments.specialGlow', isFiniteNumber(at(theme, 'ornaments', 'specialGlow'))],
+    ['ornaments.surfaceRatio', isFiniteNumber(at(theme, 'ornaments', 'surfaceRatio'))],
+    ['ornaments.surfaceShapes', isShapeWeights(at(theme, 'ornaments', 'surfaceShapes'))],
+    ['ornaments.interiorShapes', isShapeWeights(at(theme, 'ornaments', 'interiorShapes'))],
+    ['lighting.ambient', isColor(at(theme, 'lighting', 'ambient', 'color')) && isFiniteNumber(at(theme, 'lighting', 'ambient', 'intensity'))],
+    ...LIGHT_ROLES.map((role): [string, boolean] => [`lighting.${role}`, isLight(at(theme, 'lighting', role))]),
+    ['effects', isRecord(effects) && ['bloomIntensity', 'bloomThreshold', 'bloomRadius', 'vignetteOffset', 'vignetteDarkness']
+      .every((key) => isFiniteNumber(effects[key]))],
+    ['tree', isPositive(at(theme, 'tree', 'height')) && isPositive(at(theme, 'tree', 'radiusBottom'))],
+  ];
+  return checks.filter(([, ok]) => !ok).map(([field]) => field);
+}
+
+// Mutable mirror of a theme's animatable values, eased towards the target theme every frame
+export interface AnimatedTheme {
+  background: THREE.Color;
+  metal: THREE.Color;
+  ambientColor: THREE.Color;
+  ambientIntensity: number;
+  lights: Record<LightRole, { position: THREE.Vector3; color: THREE.Color; intensity: number }>;
+  effects: Theme['effects'];
+}
+
+export function createAnimatedTheme(theme: Theme): AnimatedTheme {
+  const light = (l: ThemeLight) => ({
+    position: new THREE.Vector3(...l.position),
+    color: new THREE.Color(l.color),
+    intensity: l.intensity,
+  });
+  return {
+    background: new THREE.Color(theme.background),
+    metal: new THREE.Color(theme.metal),
+    ambientColor: new THREE.Color(theme.lighting.ambient.color),
+    ambientIntensity: theme.lighting.ambient.intensity,
+    lights: {
+      key: light(theme.lighting.key),
+      fill: light(theme.lighting.fill),
+      spot: light(theme.lighting.spot),
+      back: light(theme.lighting.back),
+    },
+    effects: { ...theme.effects },
+  };
+}
+
+export function stepAnimatedTheme(animated: AnimatedTheme, target: Theme, delta: number) {
+  dampC(animated.background, target.background, THEME_SMOOTH_TIME, delta);
+  dampC(animated.metal, target.metal, THEME_SMOOTH_TIME, delta);
+  dampC(animated.ambientColor, target.lighting.ambient.color, THEME_SMOOTH_TIME, delta);
+  damp(animated, 'ambientIntensity', target.lighting.ambient.intensity, THEME_SMOOTH_TIME, delta);
+
+  for (const role of LIGHT_ROLES) {
+    const light = animated.lights[role];
+    damp3(light.position, target.lighting[role].position, THEME_SMOOTH_TIME, delta);
+    dampC(light.color, target.lighting[role].color, THEME_SMOOTH_TIME, delta);
+    damp(light, 'intensity', target.lighting[role].intensity, THEME_SMOOTH_TIME, delta);
+  }
+
+  for (const key of Object.keys(animated.effects) as (keyof Theme['effects'])[]) {
+    damp(animated.effects, key, target.effects[key], THEME_SMOOTH_TIME, delta);
+  }
+}
@@ -0,0 +1,129 @@
+import { PhotoMeta, Theme } from '../types';
+import { invalidThemeFields, isTheme } from './theme';
+import { isFiniteNumber, isRecord } from './guards';
+import { sanitizeSceneOverrides, SceneSettingsOverrides } from './sceneSettings';
+import { sanitizeTourSettings, TourSettings } from './photoTour';
+import { PHOTO_DETAIL_LIMITS, sanitizePhotoDetails } from './photoDetails';
+import { MorphSettings, sanitizeMorphSettings } from './morphTargets';
+import { LightSettings, sanitizeLightSettings } from './lightPatterns';
+
+// Tree bundle: one JSON file holding everything needed to rebuild a decorated tree elsewhere —
+// the uploaded photos (embedded as data URLs) with their details, the theme, scene, formation and light settings
+// and layout seed.
+// Pure format helpers; services/treeBundle.ts encodes and decodes the images.
+
+export const TREE_BUNDLE_FORMAT = 'noel-magic-tree';
+export const TREE_BUNDLE_VERSION = 1;
+
+export interface TreeBundlePhoto extends PhotoMeta {
+  image: string; // data:image/...;base64,...
+}
+
+export interface TreeBundle {
+  format: typeof TREE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  seed: number;
+  theme: Theme;
+  sceneOverrides: SceneSettingsOverrides;
+  tourSettings: TourSettings;
+  morphSettings: MorphSettings;
+  lightSettings: LightSettings;
+  photos: TreeBundlePhoto[];
+}
+
+export type TreeBundleFailure = 'invalid-json' | 'not-a-bundle' | 'unsupported-version' | 'invalid-fields' | 'corrupt-photo';
+
+export class TreeBundleError extends Error {
+  constructor(public reason: TreeBundleFailure, message: string) {
+    super(message);
+    this.name = 'TreeBundleError';
+  }
+}
+
+const IMAGE_DATA_URL = /^data:image\/(jpeg|png|webp|gif|avif);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+const isSeed = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+
+const isText = (value: unknown, limit: number): value is string => typeof value === 'string' && value.length <= limit;
+
+const isPhoto = (photo: unknown): photo is TreeBundlePhoto =>
+  isRecord(photo)
+  && typeof photo.id === 'string' && photo.id.length > 0
+  && typeof photo.filename === 'string'
+  && isFiniteNumber(photo.width) && photo.width > 0 && isFiniteNumber(photo.height) && photo.height > 0
+  && isFiniteNumber(photo.uploadedAt)
+  && isText(photo.caption, PHOTO_DETAIL_LIMITS.caption) && isText(photo.author, PHOTO_DETAIL_LIMITS.author)
+  && typeof photo.date === 'string'
+  && typeof photo.image === 'string' && IMAGE_DATA_URL.test(photo.image);
+
+export function exportTreeBundle(bundle: Omit<TreeBundle, 'format' | 'version'>): string {
+  return JSON.stringify({ format: TREE_BUNDLE_FORMAT, version: TREE_BUNDLE_VERSION, ...bundle });
+}
+
+// Validates a bundle file; throws a TreeBundleError with a readable message on anything malformed.
+// Scene, tour, formation and light settings are sanitized like the stored ones rather than rejected,
+// so bundles exported before a setting existed import with its defaults.
+export function importTreeBundle(json: string): TreeBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new TreeBundleError('invalid-json', 'Tree file is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== TREE_BUNDLE_FORMAT) {
+    throw new TreeBundleError('not-a-bundle', 'This file is not a tree bundle');
+  }
+  if (data.version !== TREE_BUNDLE_VERSION) {
+    const newer = typeof data.version === 'number' && data.version > TREE_BUNDLE_VERSION;
+    throw new TreeBundleError(
+      'unsupported-version',
+      newer
+        ? `Tree bundle version ${data.version} was made by a newer version of the app (this one reads version ${TREE_BUNDLE_VERSION})`
+        : `Unsupported tree bundle version: ${data.version ?? 'missing'}`
+    );
+  }
+
+  const { exportedAt, seed, theme } = data;
+  const photos: unknown[] = Array.isArray(data.photos) ? data.photos : [];
+  const invalid = [
+    ...(isFiniteNumber(exportedAt) ? [] : ['exportedAt']),
+    ...(isSeed(seed) ? [] : ['seed']),
+    ...invalidThemeFields(theme).map((field) => `theme.${field}`),
+    ...(Array.isArray(data.photos) ? [] : ['photos']),
+    ...photos.flatMap((photo, i) => (isPhoto(photo) ? [] : [`photos[${i}]`])),
+  ];
+  // The guards are repeated so the checked values narrow to their types below
+  if (invalid.length > 0 || !isFiniteNumber(exportedAt) || !isSeed(seed) || !isTheme(theme) || !photos.every(isPhoto)) {
+    throw new TreeBundleError('invalid-fields', `Tree bundle has invalid fields: ${invalid.join(', ')}`);
+  }
+  const ids = new Set(photos.map((photo) => photo.id));
+  if (ids.size !== photos.length) {
+    throw new TreeBundleError('invalid-fields', 'Tree bundle lists the same photo more than once');
+  }
+
+  return {
+    format: TREE_BUNDLE_FORMAT,
+    version: TREE_BUNDLE_VERSION,
+    exportedAt,
+    seed,
+    theme,
+    sceneOverrides: sanitizeSceneOverrides(data.sceneOverrides),
+    tourSettings: sanitizeTourSettings(data.tourSettings),
+    morphSettings: sanitizeMorphSettings(data.morphSettings),
+    lightSettings: sanitizeLightSettings(data.lightSettings),
+    photos: photos.map((photo) => ({
+      id: photo.id,
+      filename: photo.filename,
+      width: photo.width,
+      height: photo.height,
+      uploadedAt: photo.uploadedAt,
+      caption: '',
+      date: '',
+      author: '',
+      ...sanitizePhotoDetails(photo),
+      image: photo.image,
+    })),
+  };
+}
@@ -1,5 +1,37 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MEDIAPIPE_WASM_DIR = fileURLToPath(new URL('./node_modules/@mediapipe/tasks-vision/wasm', import.meta.url));
+const MEDIAPIPE_WASM_URL = '/mediapipe/wasm';
+
+// Serves the MediaPipe Tasks wasm runtime in dev and copies it into the build,
+// so hand tracking never has to reach a CDN
+function mediapipeWasm(): Plugin {
+  return {
+    name: 'mediapipe-wasm',
+    configureServer(server) {
+      server.middlewares.use(MEDIAPIPE_WASM_URL, (req, res, next) => {
+        const file = path.join(MEDIAPIPE_WASM_DIR, path.basename(new URL(req.url ?? '/', 'http://localhost').pathname));
+        if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of fs.readdirSync(MEDIAPIPE_WASM_DIR)) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${MEDIAPIPE_WASM_URL.slice(1)}/${name}`,
+          source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, name)),
+        });
+      }
+    },
+  };
+}
 
 export default defineConfig({
   base: './',
+  plugins: [mediapipeWasm()],
 });